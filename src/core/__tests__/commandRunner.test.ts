@@ -0,0 +1,50 @@
+/**
+ * Tests for the command runner
+ */
+
+import { runCommand, formatCommand } from '../commandRunner';
+
+describe('commandRunner', () => {
+  const node = process.execPath;
+
+  describe('runCommand', () => {
+    it('should resolve with stdout', async () => {
+      const stdout = await runCommand({ file: node, args: ['-e', 'process.stdout.write("hello")'] });
+      expect(stdout).toBe('hello');
+    });
+
+    it('should pass arguments verbatim without a shell', async () => {
+      const tricky = '$(echo injected); rm -rf / && `id`';
+      const stdout = await runCommand({
+        file: node,
+        args: ['-e', 'process.stdout.write(process.argv[1])', tricky],
+      });
+      expect(stdout).toBe(tricky);
+    });
+
+    it('should reject on timeout', async () => {
+      await expect(
+        runCommand({ file: node, args: ['-e', 'setTimeout(() => {}, 10000)'] }, { timeoutMs: 200 })
+      ).rejects.toThrow();
+    });
+
+    it('should reject when output exceeds the cap', async () => {
+      await expect(
+        runCommand({ file: node, args: ['-e', 'process.stdout.write("x".repeat(10000))'] }, { maxOutputBytes: 100 })
+      ).rejects.toThrow(/maxBuffer/);
+    });
+
+    it('should reject when the executable does not exist', async () => {
+      await expect(runCommand({ file: 'definitely-not-a-real-binary', args: [] })).rejects.toThrow();
+    });
+  });
+
+  describe('formatCommand', () => {
+    it('should quote arguments containing spaces or quotes', () => {
+      expect(formatCommand({ file: 'ps', args: ['-o', 'ppid=', '-p', '42'] })).toBe('ps -o ppid= -p 42');
+      expect(formatCommand({ file: 'powershell.exe', args: ['-Command', `Get-X -Filter "a='b'"`] })).toBe(
+        `powershell.exe -Command "Get-X -Filter \\"a='b'\\""`
+      );
+    });
+  });
+});
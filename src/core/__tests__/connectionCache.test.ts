@@ -0,0 +1,120 @@
+/**
+ * Tests for ConnectionCache
+ */
+
+import {
+  ConnectionCache,
+  SecretStore,
+  StateStore,
+  CACHED_CONNECTION_KEY,
+  CACHED_TOKEN_SECRET_KEY,
+  tokenFingerprint
+} from '../connectionCache';
+import { createMockProcessInfo, createMockQuotaSnapshot } from '../../__tests__/helpers/mockData';
+
+class MemoryState implements StateStore {
+  values = new Map<string, unknown>();
+
+  get<T>(key: string): T | undefined {
+    // Round-trip through JSON like VS Code's Memento does
+    const value = this.values.get(key);
+    return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+  }
+
+  async update(key: string, value: unknown): Promise<void> {
+    this.values.set(key, value);
+  }
+}
+
+class MemorySecrets implements SecretStore {
+  values = new Map<string, string>();
+
+  async get(key: string): Promise<string | undefined> {
+    return this.values.get(key);
+  }
+
+  async store(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+}
+
+describe('ConnectionCache', () => {
+  let state: MemoryState;
+  let secrets: MemorySecrets;
+  let cache: ConnectionCache;
+
+  beforeEach(() => {
+    state = new MemoryState();
+    secrets = new MemorySecrets();
+    cache = new ConnectionCache(state, new MemoryState(), secrets);
+  });
+
+  it('should return null when nothing is cached', async () => {
+    expect(await cache.load()).toBeNull();
+  });
+
+  it('should round-trip a connection and keep the token out of plain state', async () => {
+    const instance = createMockProcessInfo({ workspaceId: 'file_home_me_repo' });
+
+    await cache.save(instance);
+
+    expect(JSON.stringify(state.get(CACHED_CONNECTION_KEY))).not.toContain(instance.csrfToken);
+    expect(await cache.load()).toEqual({
+      pid: instance.pid,
+      extensionPort: instance.extensionPort,
+      connectPort: instance.connectPort,
+      csrfToken: instance.csrfToken,
+      workspaceId: 'file_home_me_repo'
+    });
+  });
+
+  it('should ignore the cache when the stored token does not match the fingerprint', async () => {
+    await cache.save(createMockProcessInfo({ csrfToken: 'token-a' }));
+    await secrets.store(CACHED_TOKEN_SECRET_KEY, 'token-b');
+
+    expect(await cache.load()).toBeNull();
+  });
+
+  it('should forget the connection on clear', async () => {
+    await cache.save(createMockProcessInfo());
+    await cache.clear();
+
+    expect(await cache.load()).toBeNull();
+    expect(secrets.values.size).toBe(0);
+  });
+
+  it('should keep connections separate per provider', async () => {
+    const windsurfCache = new ConnectionCache(state, new MemoryState(), secrets, 'windsurf');
+    await cache.save(createMockProcessInfo({ pid: 1 }));
+
+    expect(await windsurfCache.load()).toBeNull();
+
+    await windsurfCache.save(createMockProcessInfo({ pid: 2 }));
+    expect((await cache.load())?.pid).toBe(1);
+    expect((await windsurfCache.load())?.pid).toBe(2);
+  });
+
+  it('should restore snapshot dates', async () => {
+    const snapshot = createMockQuotaSnapshot();
+
+    await cache.saveSnapshot(snapshot);
+    const loaded = cache.loadSnapshot();
+
+    expect(loaded?.timestamp).toBeInstanceOf(Date);
+    expect(loaded?.timestamp.getTime()).toBe(snapshot.timestamp.getTime());
+    expect(loaded?.models[0].resetTime).toBeInstanceOf(Date);
+    expect(loaded?.models.map(model => model.modelId)).toEqual(snapshot.models.map(model => model.modelId));
+  });
+
+  it('should fingerprint tokens without revealing them', () => {
+    const fingerprint = tokenFingerprint('secret-token-value');
+
+    expect(fingerprint).toHaveLength(16);
+    expect(fingerprint).toBe(tokenFingerprint('secret-token-value'));
+    expect(fingerprint).not.toBe(tokenFingerprint('other-token-value'));
+  });
+});
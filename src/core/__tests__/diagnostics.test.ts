@@ -0,0 +1,92 @@
+/**
+ * Tests for diagnostics
+ */
+
+import { describeShape, formatDiagnosticsReport, DiagnosticsRunner } from '../diagnostics';
+import { QuotaService } from '../quotaService';
+import { createMockServerResponse, createMockProcessInfo } from '../../__tests__/helpers/mockData';
+
+describe('diagnostics', () => {
+  describe('describeShape', () => {
+    it('should describe nested objects and arrays without values', () => {
+      const lines = describeShape({ userStatus: { name: 'secret-name', models: [{ fraction: 0.5 }, {}] } });
+
+      expect(lines).toEqual([
+        '(root): object{1}',
+        'userStatus: object{2}',
+        'userStatus.name: string',
+        'userStatus.models: array[2]',
+        'userStatus.models[0]: object{1}',
+        'userStatus.models[0].fraction: number',
+      ]);
+      expect(lines.join('\n')).not.toContain('secret-name');
+    });
+
+    it('should stop at the line limit', () => {
+      const wide = Object.fromEntries(Array.from({ length: 10 }, (_, i) => [`k${i}`, i]));
+      const lines = describeShape(wide, '', 6, 5);
+
+      expect(lines).toHaveLength(6);
+      expect(lines[5]).toBe('…');
+    });
+  });
+
+  describe('formatDiagnosticsReport', () => {
+    it('should render steps as Markdown and redact token arguments', () => {
+      const markdown = formatDiagnosticsReport({
+        generatedAt: new Date('2025-01-01T00:00:00Z'),
+        steps: [
+          { title: 'Process list', status: 'ok', details: ['1 ls --csrf_token abc-123'] },
+          { title: 'Port probes', status: 'error', details: [] },
+        ],
+      });
+
+      expect(markdown).toContain('# Quota Viewer Diagnostics');
+      expect(markdown).toContain('Generated: 2025-01-01T00:00:00.000Z');
+      expect(markdown).toContain('### ✅ Process list');
+      expect(markdown).toContain('### ❌ Port probes');
+      expect(markdown).not.toContain('abc-123');
+    });
+  });
+
+  describe('DiagnosticsRunner', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should skip GetUserStatus when no instance answered', async () => {
+      const detector: any = { diagnose: jest.fn().mockResolvedValue({ steps: [], instances: [] }) };
+      const report = await new DiagnosticsRunner(detector).run();
+
+      expect(report.steps).toHaveLength(1);
+      expect(report.steps[0].status).toBe('skipped');
+    });
+
+    it('should describe the GetUserStatus payload of the first instance', async () => {
+      const detector: any = {
+        diagnose: jest.fn().mockResolvedValue({ steps: [], instances: [createMockProcessInfo()] }),
+      };
+      jest.spyOn(QuotaService.prototype, 'fetchUserStatus').mockResolvedValue(createMockServerResponse());
+
+      const context = [{ title: 'Extension', status: 'ok' as const, details: ['v1'] }];
+      const report = await new DiagnosticsRunner(detector).run(context);
+
+      expect(report.steps[0].title).toBe('Extension');
+      const statusStep = report.steps[1];
+      expect(statusStep.status).toBe('ok');
+      expect(statusStep.details[0]).toBe('3 model config(s), 3 with quotaInfo');
+      expect(statusStep.details).toContain('  userStatus.cascadeModelConfigData.clientModelConfigs: array[3]');
+    });
+
+    it('should report request failures', async () => {
+      const detector: any = {
+        diagnose: jest.fn().mockResolvedValue({ steps: [], instances: [createMockProcessInfo()] }),
+      };
+      jest.spyOn(QuotaService.prototype, 'fetchUserStatus').mockRejectedValue(new Error('Request timeout'));
+
+      const report = await new DiagnosticsRunner(detector).run();
+      expect(report.steps[0].status).toBe('error');
+      expect(report.steps[0].details).toContain('Request failed: Request timeout');
+    });
+  });
+});
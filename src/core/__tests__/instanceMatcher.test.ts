@@ -0,0 +1,74 @@
+/**
+ * Tests for instance matching
+ */
+
+import { selectInstance, normalizeWorkspaceId } from '../instanceMatcher';
+import { createMockProcessInfo } from '../../__tests__/helpers/mockData';
+
+describe('instanceMatcher', () => {
+  const context = {
+    hostPid: 5000,
+    workspaceUris: ['file:///c%3A/Users/me/repo-b'],
+  };
+
+  describe('selectInstance', () => {
+    it('should return none when there are no instances', () => {
+      const match = selectInstance([], context);
+      expect(match.instance).toBeNull();
+      expect(match.reason).toBe('none');
+    });
+
+    it('should pick the only instance without further checks', () => {
+      const instance = createMockProcessInfo();
+      const match = selectInstance([instance], context);
+
+      expect(match.instance).toBe(instance);
+      expect(match.reason).toBe('single');
+    });
+
+    it('should prefer the instance spawned by the extension host', () => {
+      const other = createMockProcessInfo({ pid: 1, ancestors: [4000] });
+      const ours = createMockProcessInfo({ pid: 2, ancestors: [4500, 5000] });
+
+      const match = selectInstance([other, ours], context);
+      expect(match.instance).toBe(ours);
+      expect(match.reason).toBe('ancestry');
+    });
+
+    it('should match the direct parent PID', () => {
+      const other = createMockProcessInfo({ pid: 1, parentPid: 4000 });
+      const ours = createMockProcessInfo({ pid: 2, parentPid: 5000 });
+
+      expect(selectInstance([other, ours], context).instance).toBe(ours);
+    });
+
+    it('should fall back to the workspace id', () => {
+      const repoA = createMockProcessInfo({ pid: 1, workspaceId: 'file_c_3A_Users_me_repo_a' });
+      const repoB = createMockProcessInfo({ pid: 2, workspaceId: 'file_c_3A_Users_me_repo_b' });
+
+      const match = selectInstance([repoA, repoB], context);
+      expect(match.instance).toBe(repoB);
+      expect(match.reason).toBe('workspace');
+    });
+
+    it('should report ambiguity when nothing tells instances apart', () => {
+      const instances = [
+        createMockProcessInfo({ pid: 1 }),
+        createMockProcessInfo({ pid: 2 }),
+      ];
+
+      const match = selectInstance(instances, context);
+      expect(match.instance).toBeNull();
+      expect(match.reason).toBe('ambiguous');
+      expect(match.candidates).toHaveLength(2);
+    });
+  });
+
+  describe('normalizeWorkspaceId', () => {
+    it('should make URIs and language server workspace ids comparable', () => {
+      expect(normalizeWorkspaceId('file:///home/me/my-repo')).toBe(
+        normalizeWorkspaceId('file_home_me_my_repo')
+      );
+    });
+  });
+});
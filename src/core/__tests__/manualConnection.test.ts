@@ -0,0 +1,79 @@
+/**
+ * Tests for manual connection resolution
+ */
+
+import { resolveManualConnection, parsePort } from '../manualConnection';
+
+describe('manualConnection', () => {
+  const noSettings = { host: '127.0.0.1', port: 0 };
+
+  describe('resolveManualConnection', () => {
+    it('should return null when nothing is configured', () => {
+      expect(resolveManualConnection(noSettings, undefined, {})).toBeNull();
+    });
+
+    it('should return null when the port is set but no token is stored', () => {
+      expect(resolveManualConnection({ host: '127.0.0.1', port: 42101 }, undefined, {})).toBeNull();
+    });
+
+    it('should combine settings with the stored token', () => {
+      const result = resolveManualConnection({ host: '10.0.0.5', port: 42101 }, 'secret-token', {});
+
+      expect(result).toEqual({
+        host: '10.0.0.5',
+        port: 42101,
+        csrfToken: 'secret-token',
+        source: 'settings',
+      });
+    });
+
+    it('should prefer environment variables over settings', () => {
+      const result = resolveManualConnection({ host: '10.0.0.5', port: 42101 }, 'secret-token', {
+        QUOTA_VIEWER_HOST: 'sandbox.local',
+        QUOTA_VIEWER_PORT: '50000',
+        QUOTA_VIEWER_CSRF_TOKEN: 'env-token',
+      });
+
+      expect(result).toEqual({
+        host: 'sandbox.local',
+        port: 50000,
+        csrfToken: 'env-token',
+        source: 'environment',
+      });
+    });
+
+    it('should use an environment token with the configured port', () => {
+      const result = resolveManualConnection({ host: '', port: 42101 }, undefined, {
+        QUOTA_VIEWER_CSRF_TOKEN: 'env-token',
+      });
+
+      expect(result?.host).toBe('127.0.0.1');
+      expect(result?.csrfToken).toBe('env-token');
+      expect(result?.source).toBe('settings');
+    });
+
+    it('should ignore an invalid environment port', () => {
+      const result = resolveManualConnection(noSettings, undefined, {
+        QUOTA_VIEWER_PORT: 'not-a-port',
+        QUOTA_VIEWER_CSRF_TOKEN: 'env-token',
+      });
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('parsePort', () => {
+    it('should accept valid ports', () => {
+      expect(parsePort('42101')).toBe(42101);
+      expect(parsePort(' 1 ')).toBe(1);
+    });
+
+    it('should reject invalid ports', () => {
+      expect(parsePort(undefined)).toBeNull();
+      expect(parsePort('')).toBeNull();
+      expect(parsePort('0')).toBeNull();
+      expect(parsePort('70000')).toBeNull();
+      expect(parsePort('42.5')).toBeNull();
+    });
+  });
+});
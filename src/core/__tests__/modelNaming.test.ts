@@ -0,0 +1,99 @@
+/**
+ * Tests for model name parsing, display forms and aliases
+ */
+
+import { ModelNamer, formatModelName, parseModelName } from '../modelNaming';
+
+describe('parseModelName', () => {
+  it('should split family, version, variant and tier', () => {
+    expect(parseModelName('Gemini 3 Pro (High)')).toEqual({
+      vendor: 'Google',
+      family: 'Gemini',
+      version: '3',
+      variant: 'Pro',
+      tier: 'High'
+    });
+  });
+
+  it('should split a hyphenated family', () => {
+    expect(parseModelName('GPT-4o')).toEqual({ vendor: 'OpenAI', family: 'GPT', version: '4o' });
+    expect(parseModelName('GPT-OSS 120B (Medium)')).toEqual({
+      vendor: 'OpenAI',
+      family: 'GPT',
+      variant: 'OSS 120B',
+      tier: 'Medium'
+    });
+  });
+
+  it('should find the version after the variant', () => {
+    expect(parseModelName('Claude Opus 4.5 (Thinking)')).toEqual({
+      vendor: 'Anthropic',
+      family: 'Claude',
+      version: '4.5',
+      variant: 'Opus',
+      tier: 'Thinking'
+    });
+  });
+
+  it('should parse unknown vendors without guessing one', () => {
+    expect(parseModelName('Nova Lite 2')).toEqual({ family: 'Nova', version: '2', variant: 'Lite' });
+  });
+});
+
+describe('formatModelName', () => {
+  it('should keep the label in the long form', () => {
+    expect(formatModelName('Gemini 3 Pro (High)', 'long')).toBe('Gemini 3 Pro (High)');
+  });
+
+  it('should mark common tiers in the medium form', () => {
+    expect(formatModelName('Gemini 3 Pro (High)', 'medium')).toBe('Gemini 3 Pro ↑');
+    expect(formatModelName('Gemini 3 Pro (Low)', 'medium')).toBe('Gemini 3 Pro ↓');
+    expect(formatModelName('Claude Sonnet 4.5 (Thinking)', 'medium')).toBe('Claude Sonnet 4.5 (Thinking)');
+    expect(formatModelName('Claude Sonnet 4.5', 'medium')).toBe('Claude Sonnet 4.5');
+  });
+
+  it('should reduce the short form to family and variant', () => {
+    expect(formatModelName('Gemini 3 Pro (High)', 'short')).toBe('Gemini Pro ↑');
+    expect(formatModelName('Claude Opus 4.5', 'short')).toBe('Claude Opus');
+    expect(formatModelName('GPT-OSS 120B (Medium)', 'short')).toBe('GPT-OSS');
+    expect(formatModelName('GPT-4o', 'short')).toBe('GPT-4o');
+  });
+
+  it('should shorten unknown names at a word boundary', () => {
+    expect(formatModelName('Unknown Model', 'short')).toBe('Unknown Model');
+    expect(formatModelName('Supercalifragilistic Experimental', 'short')).toBe('Supercalifragil…');
+  });
+
+  it('should handle empty and one-word labels', () => {
+    expect(formatModelName('', 'short')).toBe('');
+    expect(formatModelName('AI', 'short')).toBe('AI');
+    expect(formatModelName('AI', 'medium')).toBe('AI');
+  });
+});
+
+describe('ModelNamer', () => {
+  const model = { modelId: 'MODEL_PLACEHOLDER_M8', label: 'Gemini 3 Pro (High)' };
+
+  it('should format labels without aliases', () => {
+    const namer = new ModelNamer();
+
+    expect(namer.name(model, 'short')).toBe('Gemini Pro ↑');
+    expect(namer.name(model, 'medium')).toBe('Gemini 3 Pro ↑');
+    expect(namer.name(model, 'long')).toBe('Gemini 3 Pro (High)');
+  });
+
+  it('should use an alias in every form, keeping the label in the long form', () => {
+    const namer = new ModelNamer({ MODEL_PLACEHOLDER_M8: ' Pro High ' });
+
+    expect(namer.name(model, 'short')).toBe('Pro High');
+    expect(namer.name(model, 'medium')).toBe('Pro High');
+    expect(namer.name(model, 'long')).toBe('Pro High (Gemini 3 Pro (High))');
+  });
+
+  it('should ignore blank aliases and replace aliases on update', () => {
+    const namer = new ModelNamer({ MODEL_PLACEHOLDER_M8: 'Pro High' });
+    namer.setAliases({ MODEL_PLACEHOLDER_M8: '  ' });
+
+    expect(namer.name(model, 'medium')).toBe('Gemini 3 Pro ↑');
+  });
+});
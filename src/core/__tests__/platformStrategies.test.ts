@@ -0,0 +1,206 @@
+/**
+ * Tests for platform strategies
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LinuxProcStrategy, UnixStrategy, WindowsStrategy } from '../platformStrategies';
+import { windsurfProvider } from '../providers';
+
+const TCP_HEADER = '  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode';
+
+function tcpLine(index: number, port: number, state: string, inode: number): string {
+  const hexPort = port.toString(16).toUpperCase().padStart(4, '0');
+  return `   ${index}: 0100007F:${hexPort} 00000000:0000 ${state} 00000000:00000000 00:00000000 00000000  1000        0 ${inode} 1 0000000000000000 100 0 0 10 0`;
+}
+
+describe('WindowsStrategy', () => {
+  const strategy = new WindowsStrategy();
+
+  it('should build a PowerShell command as an argument array', () => {
+    const command = strategy.getProcessListCommand('language_server_windows_x64.exe');
+
+    expect(command.file).toBe('powershell.exe');
+    expect(command.args.slice(0, 3)).toEqual(['-NoProfile', '-NonInteractive', '-Command']);
+    expect(command.args[3]).toContain(`name='language_server_windows_x64.exe'`);
+  });
+
+  it('should refuse process names that could escape the filter', () => {
+    expect(() => strategy.getProcessListCommand(`x' or name like '%`)).toThrow('Unsafe process name');
+  });
+
+  it('should refuse invalid PIDs', () => {
+    expect(() => strategy.getPortListCommands(0)).toThrow('Invalid PID');
+    expect(() => strategy.getParentPidCommand(1.5)).toThrow('Invalid PID');
+  });
+
+  it('should keep only listening ports owned by the PID', () => {
+    const netstat = [
+      '  TCP    127.0.0.1:42101        0.0.0.0:0              LISTENING       1234',
+      '  TCP    127.0.0.1:42102        0.0.0.0:0              LISTENING       99999',
+      '  TCP    127.0.0.1:42103        127.0.0.1:50000        ESTABLISHED     1234',
+      '  TCP    0.0.0.0:12340          0.0.0.0:0              LISTENING       1234',
+      '  TCP    [::1]:42104            [::]:0                 LISTENING       1234',
+      '  UDP    127.0.0.1:42105        *:*                                    1234',
+    ].join('\n');
+
+    expect(strategy.parseListeningPorts(netstat, 1234)).toEqual([12340, 42101, 42104]);
+  });
+
+  it('should list IPv4 and IPv6 sockets with netstat', () => {
+    expect(strategy.getPortListCommands(1234)).toEqual([{ file: 'netstat.exe', args: ['-ano'] }]);
+  });
+
+  it('should parse every Antigravity process from PowerShell JSON', () => {
+    const json = JSON.stringify([
+      { ProcessId: 10, ParentProcessId: 5, CommandLine: 'C:\\Antigravity\\ls.exe --extension_server_port 1 --csrf_token aaa-111' },
+      { ProcessId: 11, ParentProcessId: 6, CommandLine: 'C:\\Antigravity\\ls.exe --extension_server_port 2 --csrf_token bbb-222' },
+      { ProcessId: 12, ParentProcessId: 7, CommandLine: 'C:\\Other\\ls.exe --csrf_token ccc-333' },
+    ]);
+
+    const candidates = strategy.parseProcessInfo(json);
+    expect(candidates.map(candidate => [candidate.pid, candidate.parentPid, candidate.csrfToken])).toEqual([
+      [10, 5, 'aaa-111'],
+      [11, 6, 'bbb-222'],
+    ]);
+  });
+
+  it('should keep only processes accepted by the provider filter', () => {
+    const windsurf = new WindowsStrategy(commandLine => windsurfProvider.matchesProcess(commandLine));
+    const json = JSON.stringify([
+      { ProcessId: 10, CommandLine: 'C:\\Antigravity\\ls.exe --extension_server_port 1 --csrf_token aaa-111' },
+      { ProcessId: 11, CommandLine: 'C:\\Windsurf\\ls.exe --extension_server_port 2 --csrf_token bbb-222' },
+    ]);
+
+    expect(windsurf.parseProcessInfo(json).map(candidate => candidate.pid)).toEqual([11]);
+  });
+});
+
+describe('UnixStrategy', () => {
+  it('should pass the process name as a single pgrep argument', () => {
+    const strategy = new UnixStrategy('darwin');
+    expect(strategy.getProcessListCommand('language_server_macos_arm')).toEqual({
+      file: 'pgrep',
+      args: ['-fl', 'language_server_macos_arm'],
+    });
+  });
+
+  it('should try ss before lsof on Linux', () => {
+    const commands = new UnixStrategy('linux').getPortListCommands(42);
+
+    expect(commands.map(command => command.file)).toEqual(['ss', 'lsof']);
+    expect(commands[1].args).toEqual(['-a', '-iTCP', '-sTCP:LISTEN', '-n', '-P', '-p', '42']);
+  });
+
+  it('should filter ss output by PID', () => {
+    const ss = [
+      'State  Recv-Q Send-Q Local Address:Port Peer Address:Port Process',
+      'LISTEN 0      4096   127.0.0.1:42101    0.0.0.0:*         users:(("language_server",pid=42,fd=9))',
+      'LISTEN 0      4096   127.0.0.1:8080     0.0.0.0:*         users:(("nginx",pid=420,fd=6))',
+    ].join('\n');
+
+    expect(new UnixStrategy('linux').parseListeningPorts(ss, 42)).toEqual([42101]);
+  });
+
+  it('should skip language servers that belong to another host', () => {
+    const pgrep = [
+      '111 /opt/antigravity/bin/language_server_linux_x64 --extension_server_port 42100 --csrf_token aaa-111',
+      '222 /usr/share/windsurf/bin/language_server_linux_x64 --extension_server_port 42200 --csrf_token bbb-222',
+    ].join('\n');
+
+    expect(new UnixStrategy('linux').parseProcessInfo(pgrep).map(candidate => candidate.pid)).toEqual([111]);
+    expect(new UnixStrategy('linux', commandLine => windsurfProvider.matchesProcess(commandLine))
+      .parseProcessInfo(pgrep).map(candidate => candidate.pid)).toEqual([222]);
+  });
+});
+
+describe('LinuxProcStrategy', () => {
+  let procRoot: string;
+  let strategy: LinuxProcStrategy;
+
+  function addProcess(pid: number, ppid: number, args: string[], socketInodes: number[] = []): void {
+    const dir = path.join(procRoot, String(pid));
+    fs.mkdirSync(path.join(dir, 'fd'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'cmdline'), args.join('\0') + '\0');
+    fs.writeFileSync(path.join(dir, 'stat'), `${pid} (${path.basename(args[0])}) S ${ppid} ${pid} ${pid} 0 -1`);
+    socketInodes.forEach((inode, fd) => {
+      fs.symlinkSync(`socket:[${inode}]`, path.join(dir, 'fd', String(fd + 3)));
+    });
+  }
+
+  beforeEach(() => {
+    procRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'quota-proc-'));
+    fs.mkdirSync(path.join(procRoot, 'net'));
+    strategy = new LinuxProcStrategy(procRoot);
+  });
+
+  afterEach(() => {
+    fs.rmSync(procRoot, { recursive: true, force: true });
+  });
+
+  describe('findProcesses', () => {
+    it('should find language servers from cmdline and stat', async () => {
+      addProcess(4321, 100, [
+        '/opt/antigravity/bin/language_server_linux_x64',
+        '--extension_server_port', '42100',
+        '--csrf_token', 'abc-123',
+        '--workspace_id', 'file_home_me_repo',
+      ]);
+      addProcess(999, 1, ['/usr/bin/bash', '-c', 'language_server_linux --extension_server_port 1']);
+
+      const candidates = await strategy.findProcesses('language_server_linux');
+
+      expect(candidates).toEqual([
+        {
+          pid: 4321,
+          parentPid: 100,
+          extensionPort: 42100,
+          csrfToken: 'abc-123',
+          workspaceId: 'file_home_me_repo',
+        },
+      ]);
+    });
+
+    it('should reject when /proc is not available', async () => {
+      const missing = new LinuxProcStrategy(path.join(procRoot, 'missing'));
+      await expect(missing.findProcesses('language_server_linux')).rejects.toThrow();
+    });
+  });
+
+  describe('findListeningPorts', () => {
+    it('should match listening sockets to the process fd inodes', async () => {
+      addProcess(4321, 1, ['/bin/language_server_linux'], [5001, 5002, 5003]);
+      fs.writeFileSync(path.join(procRoot, 'net', 'tcp'), [
+        TCP_HEADER,
+        tcpLine(0, 42101, '0A', 5001),
+        tcpLine(1, 42102, '01', 5002), // established, not listening
+        tcpLine(2, 8080, '0A', 7777), // another process
+      ].join('\n'));
+      fs.writeFileSync(path.join(procRoot, 'net', 'tcp6'), [
+        TCP_HEADER,
+        tcpLine(0, 42099, '0A', 5003),
+      ].join('\n'));
+
+      const ports = await strategy.findListeningPorts(4321);
+      expect(ports).toEqual([42099, 42101]);
+    });
+
+    it('should reject when the fd directory is not readable', async () => {
+      await expect(strategy.findListeningPorts(1)).rejects.toThrow();
+    });
+  });
+
+  describe('findParentPid', () => {
+    it('should handle command names with spaces and parentheses', async () => {
+      fs.mkdirSync(path.join(procRoot, '77'));
+      fs.writeFileSync(path.join(procRoot, '77', 'stat'), '77 (odd (name) x) S 55 77 77 0');
+
+      expect(await strategy.findParentPid(77)).toBe(55);
+    });
+
+    it('should return null for unknown processes', async () => {
+      expect(await strategy.findParentPid(123456)).toBeNull();
+    });
+  });
+});
@@ -3,11 +3,19 @@
  */
 
 import { ProcessDetector } from '../processDetector';
+import { LinuxProcStrategy } from '../platformStrategies';
 import * as https from 'https';
 
 // Mock child_process
 jest.mock('child_process', () => ({
-  exec: jest.fn(),
+  execFile: jest.fn(),
+}));
+
+// Mock /proc access so the Linux strategy falls back to the mocked shell commands
+jest.mock('fs/promises', () => ({
+  readdir: jest.fn().mockRejectedValue(new Error('ENOENT: /proc not mounted')),
+  readFile: jest.fn().mockRejectedValue(new Error('ENOENT: /proc not mounted')),
+  readlink: jest.fn().mockRejectedValue(new Error('ENOENT: /proc not mounted')),
 }));
 
 // Mock https
@@ -15,7 +23,7 @@ jest.mock('https');
 
 describe('ProcessDetector', () => {
   let detector: ProcessDetector;
-  const mockExec = require('child_process').exec;
+  const mockExec = require('child_process').execFile;
   const mockHttpsRequest = https.request as jest.MockedFunction<typeof https.request>;
 
   beforeEach(() => {
@@ -60,6 +68,7 @@ describe('ProcessDetector', () => {
 
       const linuxDetector = new ProcessDetector();
       expect((linuxDetector as any).processName).toBe('language_server_linux');
+      expect((linuxDetector as any).strategy).toBeInstanceOf(LinuxProcStrategy);
 
       Object.defineProperty(process, 'platform', {
         value: originalPlatform,
@@ -68,23 +77,23 @@ describe('ProcessDetector', () => {
   });
 
   describe('detect', () => {
-    it('should return null when process is not found', async () => {
-      mockExec.mockImplementation((cmd: string, options: any, callback: Function) => {
-        callback(null, { stdout: '', stderr: '' });
+    it('should return no instances when process is not found', async () => {
+      mockExec.mockImplementation((file: string, args: string[], options: any, callback: Function) => {
+        callback(null, '', '');
       });
 
       const result = await detector.detect(1);
-      expect(result).toBeNull();
+      expect(result).toEqual([]);
     });
 
     it('should retry on failure', async () => {
       let callCount = 0;
-      mockExec.mockImplementation((cmd: string, options: any, callback: Function) => {
+      mockExec.mockImplementation((file: string, args: string[], options: any, callback: Function) => {
         callCount++;
         if (callCount < 3) {
           callback(new Error('Command failed'));
         } else {
-          callback(null, { stdout: '', stderr: '' });
+          callback(null, '', '');
         }
       });
 
@@ -92,17 +101,33 @@ describe('ProcessDetector', () => {
       expect(callCount).toBe(3);
     });
 
+    it('should stop retrying once cancelled', async () => {
+      const controller = new AbortController();
+      let callCount = 0;
+      mockExec.mockImplementation((file: string, args: string[], options: any, callback: Function) => {
+        callCount++;
+        controller.abort();
+        callback(new Error('Command failed'));
+      });
+
+      const result = await detector.detect(3, controller.signal);
+
+      expect(result).toEqual([]);
+      expect(callCount).toBe(1);
+    });
+
     it('should return process info when found and port is valid', async () => {
-      const mockProcessOutput = '12345 /path/to/language_server --extension_server_port=42100 --csrf_token=test-token-123';
+      const mockProcessOutput = '12345 /opt/antigravity/bin/language_server --extension_server_port=42100 --csrf_token=test-token-123';
       const mockPortOutput = 'TCP *:42101 (LISTEN)';
 
-      mockExec.mockImplementation((cmd: string, options: any, callback: Function) => {
+      mockExec.mockImplementation((file: string, args: string[], options: any, callback: Function) => {
+        const cmd = [file, ...args].join(' ');
         if (cmd.includes('pgrep')) {
-          callback(null, { stdout: mockProcessOutput, stderr: '' });
+          callback(null, mockProcessOutput, '');
         } else if (cmd.includes('lsof')) {
-          callback(null, { stdout: mockPortOutput, stderr: '' });
+          callback(null, mockPortOutput, '');
         } else {
-          callback(null, { stdout: '', stderr: '' });
+          callback(null, '', '');
         }
       });
 
@@ -134,21 +159,62 @@ describe('ProcessDetector', () => {
 
       const result = await detector.detect(1);
       
-      if (result) {
-        expect(result.pid).toBe(12345);
-        expect(result.csrfToken).toBe('test-token-123');
-        expect(result.connectPort).toBeGreaterThan(0);
-      }
+      expect(result).toHaveLength(1);
+      expect(result[0].pid).toBe(12345);
+      expect(result[0].csrfToken).toBe('test-token-123');
+      expect(result[0].connectPort).toBeGreaterThan(0);
+    });
+
+    it('should return every instance with its ancestry when several are running', async () => {
+      const mockProcessOutput = [
+        '111 /opt/antigravity/bin/language_server --extension_server_port=42100 --csrf_token=token-a --workspace_id=file_home_me_repo_a',
+        '222 /opt/antigravity/bin/language_server --extension_server_port=42200 --csrf_token=token-b --workspace_id=file_home_me_repo_b',
+      ].join('\n');
+      const parents: Record<string, string> = { '111': '900', '222': '950', '900': '1', '950': '1' };
+
+      mockExec.mockImplementation((file: string, args: string[], options: any, callback: Function) => {
+        const cmd = [file, ...args].join(' ');
+        const ppidMatch = cmd.match(/ps -o ppid= -p (\d+)/);
+        if (cmd.includes('pgrep')) {
+          callback(null, mockProcessOutput, '');
+        } else if (ppidMatch) {
+          callback(null, `${parents[ppidMatch[1]]}\n`, '');
+        } else if (cmd.includes('lsof')) {
+          const port = cmd.includes('-p 111') ? 42101 : 42201;
+          callback(null, `TCP *:${port} (LISTEN)`, '');
+        } else {
+          callback(null, '', '');
+        }
+      });
+
+      mockHttpsRequest.mockImplementation((options: any, callback?: any) => {
+        if (callback) {
+          callback({ statusCode: 200, on: jest.fn() });
+        }
+        return {
+          on: jest.fn(function(this: any) { return this; }),
+          write: jest.fn(),
+          end: jest.fn(),
+          destroy: jest.fn(),
+        } as any;
+      });
+
+      const result = await detector.detect(1);
+
+      expect(result.map(instance => instance.pid)).toEqual([111, 222]);
+      expect(result[0].workspaceId).toBe('file_home_me_repo_a');
+      expect(result[0].ancestors).toEqual([900]);
+      expect(result[1].ancestors).toEqual([950]);
     });
 
     it('should handle timeout errors', async () => {
-      mockExec.mockImplementation((cmd: string, options: any, callback: Function) => {
+      mockExec.mockImplementation((file: string, args: string[], options: any, callback: Function) => {
         const error = new Error('Timeout');
         callback(error);
       });
 
       const result = await detector.detect(1);
-      expect(result).toBeNull();
+      expect(result).toEqual([]);
     });
   });
 
@@ -178,6 +244,23 @@ describe('ProcessDetector', () => {
       expect(result).toBe(true);
     });
 
+    it('should probe the given host', async () => {
+      mockHttpsRequest.mockImplementation((options: any, callback?: any) => {
+        if (callback) {
+          callback({ statusCode: 200, on: jest.fn() });
+        }
+        return {
+          on: jest.fn(function(this: any) { return this; }),
+          write: jest.fn(),
+          end: jest.fn(),
+          destroy: jest.fn(),
+        } as any;
+      });
+
+      await detector.testPort(42101, 'test-token', '10.0.0.5');
+      expect(mockHttpsRequest.mock.calls[0][0]).toMatchObject({ hostname: '10.0.0.5', port: 42101 });
+    });
+
     it('should return false for invalid port', async () => {
       const mockReq: any = {
         on: jest.fn(function(this: any, event: string, handler: Function) {
@@ -242,6 +325,63 @@ describe('ProcessDetector', () => {
     });
   });
 
+  describe('diagnose', () => {
+    it('should record every stage and redact the token', async () => {
+      mockExec.mockImplementation((file: string, args: string[], options: any, callback: Function) => {
+        const cmd = [file, ...args].join(' ');
+        if (cmd.includes('pgrep')) {
+          callback(null, '12345 /opt/antigravity/bin/language_server --extension_server_port=42100 --csrf_token=secret-token-123', '');
+        } else if (cmd.includes('lsof')) {
+          callback(null, 'TCP *:42101 (LISTEN)\nTCP *:42102 (LISTEN)', '');
+        } else {
+          callback(null, '', '');
+        }
+      });
+
+      mockHttpsRequest.mockImplementation((options: any, callback?: any) => {
+        if (callback) {
+          callback({ statusCode: options.port === 42102 ? 200 : 401, on: jest.fn() });
+        }
+        return {
+          on: jest.fn(function(this: any) { return this; }),
+          write: jest.fn(),
+          end: jest.fn(),
+          destroy: jest.fn(),
+        } as any;
+      });
+
+      const result = await detector.diagnose();
+      const titles = result.steps.map(step => step.title);
+
+      expect(titles).toEqual([
+        'Platform',
+        'Process list',
+        'Parsed processes',
+        'Listening ports (PID 12345)',
+        'Port probes (PID 12345)',
+      ]);
+      expect(result.instances).toHaveLength(1);
+      expect(result.instances[0].connectPort).toBe(42102);
+
+      const probes = result.steps[4].details.join('\n');
+      expect(probes).toContain('Port 42101: failed (HTTP 401)');
+      expect(probes).toContain('Port 42102: OK (HTTP 200)');
+      expect(JSON.stringify(result.steps)).not.toContain('secret-token-123');
+    });
+
+    it('should report when no process is found', async () => {
+      mockExec.mockImplementation((file: string, args: string[], options: any, callback: Function) => {
+        callback(null, '', '');
+      });
+
+      const result = await detector.diagnose();
+      const parsed = result.steps.find(step => step.title === 'Parsed processes');
+
+      expect(parsed?.status).toBe('error');
+      expect(result.instances).toEqual([]);
+    });
+  });
+
   describe('findWorkingPort', () => {
     it('should return first working port', async () => {
       const mockReq: any = {
@@ -291,11 +431,64 @@ describe('ProcessDetector', () => {
       const result = await (detector as any).findWorkingPort([], 'test-token');
       expect(result).toBeNull();
     });
+    it('should probe ports concurrently and abort the rest once one answers', async () => {
+      const signals: Record<number, AbortSignal> = {};
+
+      mockHttpsRequest.mockImplementation((options: any, callback?: any) => {
+        signals[options.port] = options.signal;
+        const mockReq: any = {
+          on: jest.fn(function(this: any) { return this; }),
+          write: jest.fn(),
+          end: jest.fn(() => {
+            // 42101 never answers; 42102 answers right away
+            if (options.port === 42102 && callback) {
+              setImmediate(() => callback({ statusCode: 200, on: jest.fn() }));
+            }
+          }),
+          destroy: jest.fn(),
+        };
+        return mockReq;
+      });
+
+      const result = await (detector as any).findWorkingPort([42101, 42102], 'test-token');
+
+      expect(result).toBe(42102);
+      expect(mockHttpsRequest).toHaveBeenCalledTimes(2);
+      expect(signals[42101].aborted).toBe(true);
+    });
+
+    it('should resolve with null when cancelled', async () => {
+      let requestSignal: AbortSignal | undefined;
+      const mockReq: any = {
+        on: jest.fn(function(this: any, event: string, handler: Function) {
+          if (event === 'error') {
+            requestSignal?.addEventListener('abort', () => {
+              handler(Object.assign(new Error('The operation was aborted'), { name: 'AbortError' }));
+            });
+          }
+          return this;
+        }),
+        write: jest.fn(),
+        end: jest.fn(),
+        destroy: jest.fn(),
+      };
+      mockHttpsRequest.mockImplementation((options: any) => {
+        requestSignal = options.signal;
+        return mockReq;
+      });
+
+      const controller = new AbortController();
+      const pending = (detector as any).findWorkingPort([42101], 'test-token', controller.signal);
+      controller.abort();
+
+      expect(await pending).toBeNull();
+      expect(requestSignal?.aborted).toBe(true);
+    });
   });
 
   describe('getListeningPorts', () => {
     it('should return empty array on error', async () => {
-      mockExec.mockImplementation((cmd: string, options: any, callback: Function) => {
+      mockExec.mockImplementation((file: string, args: string[], options: any, callback: Function) => {
         callback(new Error('Command failed'));
       });
 
@@ -303,9 +496,20 @@ describe('ProcessDetector', () => {
       expect(result).toEqual([]);
     });
 
+    it('should prefer native port lookup when available', async () => {
+      (detector as any).strategy = {
+        findListeningPorts: jest.fn().mockResolvedValue([42105]),
+        getPortListCommands: jest.fn(),
+      };
+
+      const result = await (detector as any).getListeningPorts(12345);
+      expect(result).toEqual([42105]);
+      expect(mockExec).not.toHaveBeenCalled();
+    });
+
     it('should parse ports from output', async () => {
-      mockExec.mockImplementation((cmd: string, options: any, callback: Function) => {
-        callback(null, { stdout: 'TCP *:42101 (LISTEN)\nTCP *:42102 (LISTEN)', stderr: '' });
+      mockExec.mockImplementation((file: string, args: string[], options: any, callback: Function) => {
+        callback(null, 'TCP *:42101 (LISTEN)\nTCP *:42102 (LISTEN)', '');
       });
 
       const result = await (detector as any).getListeningPorts(12345);
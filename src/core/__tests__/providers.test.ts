@@ -0,0 +1,60 @@
+/**
+ * Tests for quota providers
+ */
+
+import { antigravityProvider, codeiumProvider, getProvider, windsurfProvider } from '../providers';
+import { createMockServerResponse } from '../../__tests__/helpers/mockData';
+
+const ANTIGRAVITY_MAC = '/Applications/Antigravity.app/Contents/Resources/app/extensions/antigravity/bin/language_server_macos_arm --extension_server_port 42100';
+const ANTIGRAVITY_WIN = 'C:\\Users\\me\\AppData\\Local\\Programs\\Antigravity\\resources\\app\\extensions\\antigravity\\bin\\language_server_windows_x64.exe --app_data_dir antigravity';
+const WINDSURF_LINUX = '/usr/share/windsurf/resources/app/extensions/windsurf/bin/language_server_linux_x64 --app_data_dir windsurf';
+const CODEIUM_VSCODE = '/home/me/.vscode/extensions/codeium.codeium-1.2.3/dist/abc/language_server_linux_x64 --extension_server_port 42100';
+
+describe('providers', () => {
+  it('should attribute each command line to exactly one host', () => {
+    const providers = [antigravityProvider, windsurfProvider, codeiumProvider];
+    const owners = (commandLine: string) => providers.filter(p => p.matchesProcess(commandLine)).map(p => p.id);
+
+    expect(owners(ANTIGRAVITY_MAC)).toEqual(['antigravity']);
+    expect(owners(ANTIGRAVITY_WIN)).toEqual(['antigravity']);
+    expect(owners(WINDSURF_LINUX)).toEqual(['windsurf']);
+    expect(owners(CODEIUM_VSCODE)).toEqual(['codeium']);
+    expect(owners('/usr/bin/language_server_linux --extension_server_port 1')).toEqual([]);
+  });
+
+  it('should not treat Windsurf servers under ~/.codeium as standalone Codeium', () => {
+    const windsurfHome = '/home/me/.codeium/windsurf/bin/language_server_linux_x64 --app_data_dir windsurf';
+
+    expect(windsurfProvider.matchesProcess(windsurfHome)).toBe(true);
+    expect(codeiumProvider.matchesProcess(windsurfHome)).toBe(false);
+  });
+
+  it('should use the Codeium language server binary names', () => {
+    expect(windsurfProvider.getProcessName('win32', 'x64')).toBe('language_server_windows_x64.exe');
+    expect(windsurfProvider.getProcessName('darwin', 'arm64')).toBe('language_server_macos_arm');
+    expect(windsurfProvider.getProcessName('darwin', 'x64')).toBe('language_server_macos');
+    expect(windsurfProvider.getProcessName('linux', 'x64')).toBe('language_server_linux');
+  });
+
+  it('should identify the host in the GetUserStatus request', () => {
+    expect(antigravityProvider.buildUserStatusRequest()).toEqual({
+      metadata: { ideName: 'antigravity', extensionName: 'antigravity', locale: 'en' }
+    });
+    expect(windsurfProvider.buildUserStatusRequest()).toEqual({
+      metadata: { ideName: 'windsurf', extensionName: 'windsurf', locale: 'en' }
+    });
+  });
+
+  it('should parse GetUserStatus with the shared validator', () => {
+    const result = codeiumProvider.parseUserStatus(createMockServerResponse(), new Date());
+
+    expect(result.models).toHaveLength(3);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should fall back to Antigravity for unknown ids', () => {
+    expect(getProvider('windsurf')).toBe(windsurfProvider);
+    expect(getProvider('cursor')).toBe(antigravityProvider);
+    expect(getProvider(undefined)).toBe(antigravityProvider);
+  });
+});
@@ -2,13 +2,73 @@
  * Tests for QuotaService
  */
 
+import * as https from 'https';
 import { QuotaService } from '../quotaService';
+import { windsurfProvider } from '../providers';
+import {
+  ApiNotFoundError,
+  AuthError,
+  ConnectionError,
+  InvalidResponseError,
+  RequestTimeoutError,
+  ServerError
+} from '../errors';
 import {
   createMockServerResponse,
   createMockServerResponseNoCredits,
   createMockServerResponseExhausted,
 } from '../../__tests__/helpers/mockData';
 
+jest.mock('https');
+
+const mockHttpsRequest = https.request as jest.MockedFunction<typeof https.request>;
+
+/**
+ * Make https.request answer with a status code and body
+ */
+function mockResponse(statusCode: number, body: string): void {
+  mockHttpsRequest.mockImplementation((options: any, callback?: any) => {
+    const handlers: Record<string, Function> = {};
+    const res: any = {
+      statusCode,
+      on: jest.fn((event: string, handler: Function) => {
+        handlers[event] = handler;
+        return res;
+      }),
+    };
+    const req: any = {
+      on: jest.fn(function(this: any) { return this; }),
+      write: jest.fn(),
+      end: jest.fn(() => {
+        callback(res);
+        handlers.data?.(body);
+        handlers.end?.();
+      }),
+      destroy: jest.fn(),
+    };
+    return req;
+  });
+}
+
+/**
+ * Make https.request emit a request-level event ('error' or 'timeout')
+ */
+function mockRequestEvent(event: string, payload?: unknown): void {
+  mockHttpsRequest.mockImplementation(() => {
+    const handlers: Record<string, Function> = {};
+    const req: any = {
+      on: jest.fn(function(this: any, name: string, handler: Function) {
+        handlers[name] = handler;
+        return this;
+      }),
+      write: jest.fn(),
+      end: jest.fn(() => handlers[event]?.(payload)),
+      destroy: jest.fn(),
+    };
+    return req;
+  });
+}
+
 describe('QuotaService', () => {
   let service: QuotaService;
 
@@ -151,6 +211,44 @@ describe('QuotaService', () => {
     });
   });
 
+  describe('parseResponse plan and credits', () => {
+    it('should expose every credit pool with its own percentages', () => {
+      const response: any = createMockServerResponse();
+      response.userStatus.planStatus.availableFlowCredits = 300;
+      response.userStatus.planStatus.planInfo.monthlyFlowCredits = 1200;
+      response.userStatus.planStatus.availableFlexCredits = 50;
+
+      const snapshot = (service as any).parseResponse(response);
+
+      expect(snapshot.creditPools).toEqual([
+        { id: 'prompt', label: 'Prompt Credits', available: 350, monthly: 500, usedPercentage: 30, remainingPercentage: 70 },
+        { id: 'flow', label: 'Flow Credits', available: 300, monthly: 1200, usedPercentage: 75, remainingPercentage: 25 },
+        { id: 'flex', label: 'Flex Credits', available: 50 }
+      ]);
+      expect(snapshot.promptCredits).toMatchObject({ available: 350, monthly: 500 });
+    });
+
+    it('should include plan and account when present', () => {
+      const response: any = createMockServerResponse();
+      response.userStatus.email = 'dev@example.com';
+      response.userStatus.planStatus.planInfo.planName = 'Teams';
+
+      const snapshot = (service as any).parseResponse(response);
+
+      expect(snapshot.plan).toEqual({ name: 'Teams', tier: undefined });
+      expect(snapshot.account).toEqual({ name: undefined, email: 'dev@example.com' });
+    });
+  });
+
+  describe('parseResponse warnings', () => {
+    it('should not flag complete responses', () => {
+      const snapshot = (service as any).parseResponse(createMockServerResponse());
+
+      expect(snapshot.warnings).toBeUndefined();
+      expect(snapshot.models.every((model: any) => model.defaultedFields === undefined)).toBe(true);
+    });
+  });
+
   describe('formatTime', () => {
     it('should format negative or zero time as "Ready"', () => {
       expect((service as any).formatTime(0)).toBe('Ready');
@@ -215,15 +313,96 @@ describe('QuotaService', () => {
 
       const snapshot = (service as any).parseResponse(mockResponse);
       expect(snapshot.models[0].resetTime).toBeInstanceOf(Date);
+      expect(snapshot.models[0].defaultedFields).toEqual(['quotaInfo.resetTime']);
+      expect(snapshot.models[0].isQuotaUnknown).toBe(true);
+      expect(snapshot.warnings).toHaveLength(1);
     });
 
-    it('should handle models with remainingFraction undefined', () => {
+    it('should treat models with remainingFraction undefined as exhausted', () => {
       const mockResponse = createMockServerResponse();
       mockResponse.userStatus.cascadeModelConfigData!.clientModelConfigs![0].quotaInfo!.remainingFraction = undefined;
 
       const snapshot = (service as any).parseResponse(mockResponse);
-      expect(snapshot.models[0].remainingFraction).toBe(1);
-      expect(snapshot.models[0].remainingPercent).toBe(100);
+      expect(snapshot.models[0].remainingFraction).toBe(0);
+      expect(snapshot.models[0].remainingPercent).toBe(0);
+      expect(snapshot.models[0].isExhausted).toBe(true);
+      expect(snapshot.models[0].defaultedFields).toBeUndefined();
+    });
+
+    it('should mark models with a guessed quota as unknown', () => {
+      const mockResponse = createMockServerResponse();
+      mockResponse.userStatus.cascadeModelConfigData!.clientModelConfigs![0].quotaInfo = {};
+
+      const snapshot = (service as any).parseResponse(mockResponse);
+      expect(snapshot.models[0].isQuotaUnknown).toBe(true);
+      expect(snapshot.models[1].isQuotaUnknown).toBeUndefined();
+    });
+  });
+
+  describe('request errors', () => {
+    const endpoint = '/exa.language_server_pb.LanguageServerService/GetUserStatus';
+
+    beforeEach(() => {
+      service.setConnection(42101, 'test-token');
+    });
+
+    it('should resolve JSON bodies of successful responses', async () => {
+      mockResponse(200, JSON.stringify(createMockServerResponse()));
+      await expect(service.poll()).resolves.toHaveLength(3);
+    });
+
+    it('should send provider metadata and the CSRF header', async () => {
+      const windsurf = new QuotaService(windsurfProvider);
+      windsurf.setConnection(42101, 'test-token');
+      mockResponse(200, JSON.stringify(createMockServerResponse()));
+
+      await windsurf.poll();
+
+      const options: any = mockHttpsRequest.mock.calls[mockHttpsRequest.mock.calls.length - 1][0];
+      const req: any = mockHttpsRequest.mock.results[mockHttpsRequest.mock.results.length - 1].value;
+      expect(options.path).toBe(windsurfProvider.userStatusEndpoint);
+      expect(options.headers['X-Codeium-Csrf-Token']).toBe('test-token');
+      expect(JSON.parse(req.write.mock.calls[0][0]).metadata.ideName).toBe('windsurf');
+    });
+
+    it('should report rejected tokens as AuthError', async () => {
+      mockResponse(401, JSON.stringify({ code: 'unauthenticated', message: 'invalid CSRF token' }));
+
+      const error = await service.fetchUserStatus().catch(e => e);
+      expect(error).toBeInstanceOf(AuthError);
+      expect(error).toMatchObject({ statusCode: 401, endpoint, retryable: false });
+      expect(error.message).toContain('invalid CSRF token');
+    });
+
+    it('should report 404 as ApiNotFoundError', async () => {
+      mockResponse(404, '404 page not found');
+      await expect(service.fetchUserStatus()).rejects.toBeInstanceOf(ApiNotFoundError);
+    });
+
+    it('should report 5xx as a retryable ServerError', async () => {
+      mockResponse(503, '');
+
+      const error = await service.fetchUserStatus().catch(e => e);
+      expect(error).toBeInstanceOf(ServerError);
+      expect(error).toMatchObject({ statusCode: 503, retryable: true });
+    });
+
+    it('should report non-JSON success bodies as InvalidResponseError', async () => {
+      mockResponse(200, '<html>');
+      await expect(service.fetchUserStatus()).rejects.toBeInstanceOf(InvalidResponseError);
+    });
+
+    it('should keep the socket error code on ConnectionError', async () => {
+      mockRequestEvent('error', Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }));
+
+      const error = await service.fetchUserStatus().catch(e => e);
+      expect(error).toBeInstanceOf(ConnectionError);
+      expect(error).toMatchObject({ code: 'ECONNREFUSED', retryable: true });
+    });
+
+    it('should report timeouts as RequestTimeoutError', async () => {
+      mockRequestEvent('timeout');
+      await expect(service.fetchUserStatus()).rejects.toBeInstanceOf(RequestTimeoutError);
     });
   });
 });
@@ -0,0 +1,79 @@
+/**
+ * Tests for reconnection helpers
+ */
+
+import { isConnectionFailure, ReconnectBackoff } from '../reconnect';
+import { AuthError, ConnectionError, RequestTimeoutError, ServerError } from '../errors';
+
+describe('reconnect', () => {
+  describe('isConnectionFailure', () => {
+    it('should detect socket error codes', () => {
+      const refused = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:42101'), { code: 'ECONNREFUSED' });
+      const reset = Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' });
+
+      expect(isConnectionFailure(refused)).toBe(true);
+      expect(isConnectionFailure(reset)).toBe(true);
+    });
+
+    it('should detect request timeouts', () => {
+      expect(isConnectionFailure(new Error('Request timeout'))).toBe(true);
+    });
+
+    it('should not treat response errors as connection failures', () => {
+      expect(isConnectionFailure(new Error('Invalid JSON response'))).toBe(false);
+      expect(isConnectionFailure(new Error('QuotaService not configured'))).toBe(false);
+    });
+
+    it('should classify typed request errors', () => {
+      const endpoint = '/GetUserStatus';
+
+      expect(isConnectionFailure(new ConnectionError(endpoint, new Error('socket hang up')))).toBe(true);
+      expect(isConnectionFailure(new RequestTimeoutError(endpoint, 10000))).toBe(true);
+      expect(isConnectionFailure(new AuthError(endpoint, 401))).toBe(false);
+      expect(isConnectionFailure(new ServerError(endpoint, 500))).toBe(false);
+    });
+
+    it('should ignore non-errors', () => {
+      expect(isConnectionFailure('ECONNREFUSED')).toBe(false);
+      expect(isConnectionFailure(undefined)).toBe(false);
+    });
+  });
+
+  describe('ReconnectBackoff', () => {
+    it('should try immediately and then back off exponentially', () => {
+      const backoff = new ReconnectBackoff(1000, 60000);
+
+      expect(backoff.nextDelay()).toBe(0);
+      expect(backoff.nextDelay()).toBe(1000);
+      expect(backoff.nextDelay()).toBe(2000);
+      expect(backoff.nextDelay()).toBe(4000);
+      expect(backoff.attempts).toBe(4);
+    });
+
+    it('should delay the first attempt when not immediate', () => {
+      const backoff = new ReconnectBackoff(1000, 60000, false);
+
+      expect(backoff.nextDelay()).toBe(1000);
+      expect(backoff.nextDelay()).toBe(2000);
+    });
+
+    it('should cap the delay', () => {
+      const backoff = new ReconnectBackoff(1000, 5000);
+      for (let i = 0; i < 10; i++) {
+        backoff.nextDelay();
+      }
+
+      expect(backoff.nextDelay()).toBe(5000);
+    });
+
+    it('should start over after reset', () => {
+      const backoff = new ReconnectBackoff(1000, 60000);
+      backoff.nextDelay();
+      backoff.nextDelay();
+      backoff.reset();
+
+      expect(backoff.attempts).toBe(0);
+      expect(backoff.nextDelay()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for response recording and replay
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SimulatedClock } from '../clock';
+import { loadRecording, parseRecording, ResponseRecorder, ResponseReplay } from '../recording';
+import { QuotaService } from '../quotaService';
+import { InsightsService } from '../../insights/insightsService';
+import { createMockServerResponse } from '../../__tests__/helpers/mockData';
+
+const ENDPOINT = '/exa.language_server_pb.LanguageServerService/GetUserStatus';
+
+/**
+ * Build a response whose first model has the given remaining fraction
+ */
+function responseWithFraction(fraction: number, resetTime: string): any {
+  const response: any = createMockServerResponse();
+  response.userStatus.cascadeModelConfigData.clientModelConfigs[0].quotaInfo = { remainingFraction: fraction, resetTime };
+  return response;
+}
+
+describe('recording', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'quota-recording-'));
+    file = path.join(dir, 'trace.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('ResponseRecorder', () => {
+    it('should append one redacted JSON line per response', async () => {
+      const clock = new SimulatedClock(new Date('2025-03-01T10:00:00Z'));
+      const recorder = new ResponseRecorder(file, clock);
+      const response: any = createMockServerResponse();
+      response.userStatus.debug = 'launched with --csrf_token abc-123 and secret-token';
+
+      await recorder.record(ENDPOINT, response, ['secret-token']);
+      clock.set(new Date(clock.now().getTime() + 60000));
+      await recorder.record(ENDPOINT, response, ['secret-token']);
+
+      const content = fs.readFileSync(file, 'utf8');
+      const lines = content.trim().split('\n');
+
+      expect(lines).toHaveLength(2);
+      expect(content).not.toContain('abc-123');
+      expect(content).not.toContain('secret-token');
+      expect(JSON.parse(lines[1]).timestamp).toBe('2025-03-01T10:01:00.000Z');
+    });
+
+    it('should produce files that load back', async () => {
+      const recorder = new ResponseRecorder(file, new SimulatedClock(new Date('2025-03-01T10:00:00Z')));
+      await recorder.record(ENDPOINT, createMockServerResponse());
+
+      const { entries, skipped } = await loadRecording(file);
+
+      expect(skipped).toBe(0);
+      expect(entries[0].endpoint).toBe(ENDPOINT);
+      expect(entries[0].timestamp.toISOString()).toBe('2025-03-01T10:00:00.000Z');
+    });
+  });
+
+  describe('parseRecording', () => {
+    it('should sort entries and skip invalid lines', () => {
+      const content = [
+        JSON.stringify({ timestamp: '2025-03-01T10:05:00Z', endpoint: ENDPOINT, response: { userStatus: {} } }),
+        'not json',
+        JSON.stringify({ timestamp: 'yesterday', response: { userStatus: {} } }),
+        JSON.stringify({ timestamp: '2025-03-01T10:00:00Z', endpoint: ENDPOINT, response: { userStatus: {} } }),
+        ''
+      ].join('\n');
+
+      const { entries, skipped } = parseRecording(content);
+
+      expect(skipped).toBe(2);
+      expect(entries.map(entry => entry.timestamp.toISOString())).toEqual([
+        '2025-03-01T10:00:00.000Z',
+        '2025-03-01T10:05:00.000Z'
+      ]);
+    });
+  });
+
+  describe('ResponseReplay', () => {
+    it('should move the clock to each response and stop at the end', () => {
+      const clock = new SimulatedClock();
+      const { entries } = parseRecording([
+        JSON.stringify({ timestamp: '2025-03-01T10:00:00Z', endpoint: ENDPOINT, response: { userStatus: {} } }),
+        JSON.stringify({ timestamp: '2025-03-01T10:02:00Z', endpoint: ENDPOINT, response: { userStatus: {} } })
+      ].join('\n'));
+      const replay = new ResponseReplay(entries, clock);
+
+      replay.next();
+      expect(clock.now().toISOString()).toBe('2025-03-01T10:00:00.000Z');
+      replay.next();
+      expect(clock.now().toISOString()).toBe('2025-03-01T10:02:00.000Z');
+      expect(replay.position).toBe(2);
+      expect(() => replay.next()).toThrow('Replay finished');
+    });
+
+    it('should drive QuotaService and InsightsService on recorded time', async () => {
+      const reset = '2025-03-01T15:00:00Z';
+      const { entries } = parseRecording([
+        JSON.stringify({ timestamp: '2025-03-01T10:00:00Z', endpoint: ENDPOINT, response: responseWithFraction(0.8, reset) }),
+        JSON.stringify({ timestamp: '2025-03-01T11:00:00Z', endpoint: ENDPOINT, response: responseWithFraction(0.6, reset) })
+      ].join('\n'));
+      const clock = new SimulatedClock(entries[0].timestamp);
+      const service = new QuotaService(undefined, clock);
+      const insights = new InsightsService(clock);
+      service.setReplay(new ResponseReplay(entries, clock));
+
+      expect(service.isConfigured()).toBe(true);
+
+      await service.poll();
+      insights.analyze(service.getSnapshot()!);
+      await service.poll();
+      const snapshot = service.getSnapshot()!;
+      const analyzed = insights.analyze(snapshot);
+
+      expect(snapshot.timestamp.toISOString()).toBe('2025-03-01T11:00:00.000Z');
+      expect(snapshot.models[0].timeUntilReset).toBe(4 * 60 * 60 * 1000);
+      const model = analyzed.modelsWithInsights.find(m => m.modelId === snapshot.models[0].modelId)!;
+      expect(model.insights.burnRate).toBeCloseTo(20);
+    });
+  });
+});
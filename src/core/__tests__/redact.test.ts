@@ -0,0 +1,32 @@
+/**
+ * Tests for redaction helpers
+ */
+
+import { redactToken, redactSecrets } from '../redact';
+
+describe('redact', () => {
+  describe('redactToken', () => {
+    it('should keep only a short prefix and the length', () => {
+      expect(redactToken('0123456789abcdef')).toBe('0123…(16 chars)');
+    });
+
+    it('should fully hide short tokens', () => {
+      expect(redactToken('abc')).toBe('***');
+      expect(redactToken('')).toBe('(none)');
+    });
+  });
+
+  describe('redactSecrets', () => {
+    it('should redact --csrf_token arguments', () => {
+      const line = '123 language_server --csrf_token abc-def --extension_server_port=1';
+      expect(redactSecrets(line)).toBe('123 language_server --csrf_token <redacted> --extension_server_port=1');
+      expect(redactSecrets('--csrf_token=abc-def')).toBe('--csrf_token=<redacted>');
+    });
+
+    it('should redact every occurrence of known tokens', () => {
+      expect(redactSecrets('token abc-def seen in abc-def', ['abc-def'])).toBe(
+        'token <redacted> seen in <redacted>'
+      );
+    });
+  });
+});
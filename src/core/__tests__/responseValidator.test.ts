@@ -0,0 +1,170 @@
+/**
+ * Tests for GetUserStatus response validation
+ */
+
+import { formatTier, validateUserStatus } from '../responseValidator';
+import { InvalidResponseError } from '../errors';
+import { createMockServerResponse } from '../../__tests__/helpers/mockData';
+
+const ENDPOINT = '/GetUserStatus';
+
+describe('validateUserStatus', () => {
+  const now = new Date('2025-01-01T00:00:00Z');
+
+  it('should accept a well-formed response without issues', () => {
+    const result = validateUserStatus(createMockServerResponse(), ENDPOINT, now);
+
+    expect(result.issues).toEqual([]);
+    expect(result.models).toHaveLength(3);
+    expect(result.models.every(model => model.defaultedFields.length === 0)).toBe(true);
+    expect(result.creditPools).toEqual([{ id: 'prompt', available: 350, monthly: 500 }]);
+  });
+
+  it('should throw InvalidResponseError when userStatus is missing', () => {
+    expect(() => validateUserStatus({}, ENDPOINT)).toThrow(InvalidResponseError);
+    expect(() => validateUserStatus(null, ENDPOINT)).toThrow('Missing "userStatus"');
+  });
+
+  it('should record defaulted fields per model', () => {
+    const response = createMockServerResponse();
+    const config = response.userStatus.cascadeModelConfigData!.clientModelConfigs![0];
+    config.quotaInfo = {};
+    config.modelOrAlias = undefined;
+
+    const result = validateUserStatus(response, ENDPOINT, now);
+    const model = result.models[0];
+
+    expect(model.modelId).toBe('unknown');
+    expect(model.remainingFraction).toBe(1);
+    expect(model.resetTime).toEqual(now);
+    expect(model.defaultedFields).toEqual([
+      'modelOrAlias.model',
+      'quotaInfo.resetTime',
+      'quotaInfo.remainingFraction'
+    ]);
+    expect(model.isQuotaUnknown).toBe(true);
+    expect(result.issues.map(issue => issue.path)).toContain('clientModelConfigs[0].quotaInfo.resetTime');
+    expect(result.issues.every(issue => issue.model === config.label)).toBe(true);
+  });
+
+  it('should clamp out-of-range fractions and reject invalid dates', () => {
+    const response: any = createMockServerResponse();
+    const config = response.userStatus.cascadeModelConfigData.clientModelConfigs[0];
+    config.quotaInfo = { remainingFraction: 1.5, resetTime: 'tomorrow' };
+
+    const model = validateUserStatus(response, ENDPOINT, now).models[0];
+
+    expect(model.remainingFraction).toBe(1);
+    expect(model.resetTime).toEqual(now);
+    expect(model.defaultedFields).toEqual(['quotaInfo.resetTime', 'quotaInfo.remainingFraction']);
+    expect(model.isQuotaUnknown).toBe(true);
+  });
+
+  it('should read a missing fraction next to a reset time as exhausted', () => {
+    const response = createMockServerResponse();
+    delete response.userStatus.cascadeModelConfigData!.clientModelConfigs![0].quotaInfo!.remainingFraction;
+
+    const result = validateUserStatus(response, ENDPOINT, now);
+
+    expect(result.models[0]).toMatchObject({ remainingFraction: 0, defaultedFields: [], isQuotaUnknown: false });
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should skip models without quotaInfo', () => {
+    const response = createMockServerResponse();
+    response.userStatus.cascadeModelConfigData!.clientModelConfigs![1].quotaInfo = undefined;
+
+    const result = validateUserStatus(response, ENDPOINT, now);
+    expect(result.models).toHaveLength(2);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should report structural problems', () => {
+    const result = validateUserStatus({
+      userStatus: {
+        planStatus: { planInfo: { monthlyPromptCredits: 'lots' }, availablePromptCredits: 10 },
+        cascadeModelConfigData: { clientModelConfigs: 'none' }
+      }
+    }, ENDPOINT, now);
+
+    expect(result.models).toEqual([]);
+    expect(result.creditPools).toEqual([{ id: 'prompt', available: 10 }]);
+    expect(result.issues.map(issue => issue.path)).toEqual([
+      'planStatus.planInfo.monthlyPromptCredits',
+      'cascadeModelConfigData.clientModelConfigs'
+    ]);
+  });
+
+  it('should flag a missing model config section', () => {
+    const result = validateUserStatus({ userStatus: {} }, ENDPOINT, now);
+
+    expect(result.models).toEqual([]);
+    expect(result.issues).toEqual([
+      { path: 'cascadeModelConfigData', message: 'Missing; no model quotas available' }
+    ]);
+  });
+
+  it('should read every credit pool, the plan and the account', () => {
+    const response: any = createMockServerResponse();
+    response.userStatus.name = 'Ada Lovelace';
+    response.userStatus.email = 'ada@example.com';
+    Object.assign(response.userStatus.planStatus, {
+      availableFlowCredits: '1200',
+      availableFlexCredits: 75
+    });
+    Object.assign(response.userStatus.planStatus.planInfo, {
+      planName: 'Pro',
+      teamsTier: 'TEAMS_TIER_PRO_ULTIMATE',
+      monthlyFlowCredits: '1500'
+    });
+
+    const result = validateUserStatus(response, ENDPOINT, now);
+
+    expect(result.issues).toEqual([]);
+    expect(result.creditPools).toEqual([
+      { id: 'prompt', available: 350, monthly: 500 },
+      { id: 'flow', available: 1200, monthly: 1500 },
+      { id: 'flex', available: 75 }
+    ]);
+    expect(result.plan).toEqual({ name: 'Pro', tier: 'Pro Ultimate' });
+    expect(result.account).toEqual({ name: 'Ada Lovelace', email: 'ada@example.com' });
+  });
+
+  it('should prefer the user tier name and flag non-string identity fields', () => {
+    const response: any = createMockServerResponse();
+    response.userStatus.userTier = { id: 'g1-pro-tier', name: 'Google AI Pro' };
+    response.userStatus.email = 42;
+
+    const result = validateUserStatus(response, ENDPOINT, now);
+
+    expect(result.plan).toEqual({ name: undefined, tier: 'Google AI Pro' });
+    expect(result.account).toBeUndefined();
+    expect(result.issues).toEqual([{ path: 'email', message: 'Expected a string' }]);
+  });
+
+  it('should read the billing cycle and flag invalid timestamps', () => {
+    const response: any = createMockServerResponse();
+    Object.assign(response.userStatus.planStatus, {
+      planStart: '2025-03-01T00:00:00Z',
+      planEnd: '2025-04-01T00:00:00Z'
+    });
+
+    expect(validateUserStatus(response, ENDPOINT, now).plan).toMatchObject({
+      cycleStart: new Date('2025-03-01T00:00:00Z'),
+      cycleEnd: new Date('2025-04-01T00:00:00Z')
+    });
+
+    response.userStatus.planStatus.planEnd = 'next month';
+    const result = validateUserStatus(response, ENDPOINT, now);
+
+    expect(result.plan?.cycleEnd).toBeUndefined();
+    expect(result.issues).toEqual([{ path: 'planStatus.planEnd', message: 'Expected a timestamp' }]);
+  });
+});
+
+describe('formatTier', () => {
+  it('should turn tier enums into readable names', () => {
+    expect(formatTier('TEAMS_TIER_ENTERPRISE_SAAS')).toBe('Enterprise Saas');
+    expect(formatTier('Pro')).toBe('Pro');
+  });
+});
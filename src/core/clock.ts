@@ -0,0 +1,35 @@
+/**
+ * Clock
+ * Time source that can be swapped for a simulated one when replaying recordings
+ */
+
+import { Clock } from '../types';
+
+/**
+ * Real wall-clock time
+ */
+export const systemClock: Clock = {
+  now: () => new Date()
+};
+
+/**
+ * Clock that only moves when told to, e.g. to the timestamp of a replayed response
+ */
+export class SimulatedClock implements Clock {
+  private current: Date;
+
+  constructor(start: Date = new Date(0)) {
+    this.current = new Date(start);
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  /**
+   * Jump to a point in time
+   */
+  set(time: Date): void {
+    this.current = new Date(time);
+  }
+}
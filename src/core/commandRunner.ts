@@ -0,0 +1,50 @@
+/**
+ * Command Runner
+ * Runs structured commands without a shell, with timeouts and output caps
+ */
+
+import { execFile } from 'child_process';
+import { CommandSpec } from '../types';
+
+export const DEFAULT_COMMAND_TIMEOUT_MS = 5000;
+export const MAX_COMMAND_OUTPUT_BYTES = 1024 * 1024;
+
+export interface CommandOptions {
+  timeoutMs?: number;
+  maxOutputBytes?: number;
+}
+
+/**
+ * Run an executable with an argument array and resolve with its stdout.
+ * Arguments are passed verbatim to the process, so nothing is interpreted by a shell.
+ */
+export function runCommand(command: CommandSpec, options: CommandOptions = {}): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      command.file,
+      command.args,
+      {
+        timeout: options.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS,
+        maxBuffer: options.maxOutputBytes ?? MAX_COMMAND_OUTPUT_BYTES,
+        windowsHide: true,
+        encoding: 'utf8'
+      },
+      (error, stdout) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
+
+/**
+ * Render a command for logs and diagnostics, quoting arguments with spaces
+ */
+export function formatCommand(command: CommandSpec): string {
+  return [command.file, ...command.args]
+    .map(part => (/[\s"']/.test(part) ? JSON.stringify(part) : part))
+    .join(' ');
+}
@@ -0,0 +1,133 @@
+/**
+ * Connection Cache
+ * Remembers the last working connection and snapshot so startup can skip detection
+ */
+
+import { createHash } from 'crypto';
+import { CachedConnection, ProcessInfo, QuotaProviderId, QuotaSnapshot } from '../types';
+
+export const CACHED_CONNECTION_KEY = 'quotaViewer.cachedConnection';
+export const CACHED_SNAPSHOT_KEY = 'quotaViewer.cachedSnapshot';
+export const CACHED_TOKEN_SECRET_KEY = 'quotaViewer.cachedConnection.csrfToken';
+
+/**
+ * Key/value storage, satisfied by VS Code's Memento
+ */
+export interface StateStore {
+  get<T>(key: string): T | undefined;
+  update(key: string, value: unknown): PromiseLike<void>;
+}
+
+/**
+ * Secret storage, satisfied by VS Code's SecretStorage
+ */
+export interface SecretStore {
+  get(key: string): PromiseLike<string | undefined>;
+  store(key: string, value: string): PromiseLike<void>;
+  delete(key: string): PromiseLike<void>;
+}
+
+export class ConnectionCache {
+  /**
+   * @param connectionState Per-window storage for the connection (each window has its own server)
+   * @param snapshotState Storage for the last snapshot (quota is per account, so it can be global)
+   * @param secrets Storage for the CSRF token, which never goes into plain state
+   * @param providerId Provider the cache belongs to; switching providers must not reuse another host's server
+   */
+  constructor(
+    private connectionState: StateStore,
+    private snapshotState: StateStore,
+    private secrets: SecretStore,
+    private providerId: QuotaProviderId = 'antigravity'
+  ) {}
+
+  /**
+   * Scope a storage key to the provider. Antigravity keeps the original keys.
+   */
+  private key(base: string): string {
+    return this.providerId === 'antigravity' ? base : `${base}.${this.providerId}`;
+  }
+
+  /**
+   * Load the cached connection, or null if there is none or the stored token
+   * no longer matches its fingerprint (e.g. another window overwrote it)
+   */
+  async load(): Promise<ProcessInfo | null> {
+    const cached = this.connectionState.get<CachedConnection>(this.key(CACHED_CONNECTION_KEY));
+    if (!cached) return null;
+
+    const csrfToken = await this.secrets.get(this.key(CACHED_TOKEN_SECRET_KEY));
+    if (!csrfToken || tokenFingerprint(csrfToken) !== cached.tokenFingerprint) {
+      return null;
+    }
+
+    return {
+      pid: cached.pid,
+      extensionPort: cached.extensionPort,
+      connectPort: cached.connectPort,
+      csrfToken,
+      workspaceId: cached.workspaceId
+    };
+  }
+
+  /**
+   * Remember a connection that answered
+   */
+  async save(instance: ProcessInfo): Promise<void> {
+    const cached: CachedConnection = {
+      pid: instance.pid,
+      extensionPort: instance.extensionPort,
+      connectPort: instance.connectPort,
+      workspaceId: instance.workspaceId,
+      tokenFingerprint: tokenFingerprint(instance.csrfToken),
+      savedAt: Date.now()
+    };
+
+    await this.secrets.store(this.key(CACHED_TOKEN_SECRET_KEY), instance.csrfToken);
+    await this.connectionState.update(this.key(CACHED_CONNECTION_KEY), cached);
+  }
+
+  /**
+   * Forget the cached connection
+   */
+  async clear(): Promise<void> {
+    await this.connectionState.update(this.key(CACHED_CONNECTION_KEY), undefined);
+    await this.secrets.delete(this.key(CACHED_TOKEN_SECRET_KEY));
+  }
+
+  /**
+   * Load the last snapshot, restoring its dates
+   */
+  loadSnapshot(): QuotaSnapshot | null {
+    const stored = this.snapshotState.get<QuotaSnapshot>(this.key(CACHED_SNAPSHOT_KEY));
+    if (!stored || !Array.isArray(stored.models)) return null;
+
+    return {
+      ...stored,
+      timestamp: new Date(stored.timestamp),
+      models: stored.models.map(model => ({
+        ...model,
+        resetTime: new Date(model.resetTime)
+      })),
+      plan: stored.plan && {
+        ...stored.plan,
+        cycleStart: stored.plan.cycleStart && new Date(stored.plan.cycleStart),
+        cycleEnd: stored.plan.cycleEnd && new Date(stored.plan.cycleEnd)
+      }
+    };
+  }
+
+  /**
+   * Remember the latest snapshot for the next startup
+   */
+  async saveSnapshot(snapshot: QuotaSnapshot): Promise<void> {
+    await this.snapshotState.update(this.key(CACHED_SNAPSHOT_KEY), snapshot);
+  }
+}
+
+/**
+ * Short, non-reversible fingerprint of a CSRF token
+ */
+export function tokenFingerprint(token: string): string {
+  return createHash('sha256').update(token).digest('hex').slice(0, 16);
+}
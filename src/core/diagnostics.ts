@@ -0,0 +1,151 @@
+/**
+ * Diagnostics
+ * Runs every detection stage and renders a copyable, token-free report
+ */
+
+import { ProcessDetector } from './processDetector';
+import { QuotaService } from './quotaService';
+import { redactSecrets } from './redact';
+import { antigravityProvider } from './providers';
+import { DiagnosticStep, DiagnosticsReport, QuotaProvider, ServerUserStatusResponse } from '../types';
+
+const STATUS_ICONS: Record<DiagnosticStep['status'], string> = {
+  ok: '✅',
+  warning: '⚠️',
+  error: '❌',
+  skipped: '⏭️'
+};
+
+export class DiagnosticsRunner {
+  constructor(
+    private processDetector: ProcessDetector,
+    private provider: QuotaProvider = antigravityProvider
+  ) {}
+
+  /**
+   * Run detection stages followed by a GetUserStatus probe.
+   * `contextSteps` are prepended (extension version, settings, current connection).
+   */
+  async run(contextSteps: DiagnosticStep[] = []): Promise<DiagnosticsReport> {
+    const detection = await this.processDetector.diagnose();
+    const steps = [...contextSteps, ...detection.steps];
+
+    const instance = detection.instances[0];
+    if (!instance) {
+      steps.push({
+        title: 'GetUserStatus response',
+        status: 'skipped',
+        details: ['No instance answered GetUnleashData']
+      });
+    } else {
+      steps.push(await this.describeUserStatus(instance.connectPort, instance.csrfToken));
+    }
+
+    return { generatedAt: new Date(), steps };
+  }
+
+  /**
+   * Fetch GetUserStatus and record the shape of the payload without its values
+   */
+  private async describeUserStatus(port: number, csrfToken: string): Promise<DiagnosticStep> {
+    const step: DiagnosticStep = { title: `GetUserStatus response (port ${port})`, status: 'ok', details: [] };
+    const service = new QuotaService(this.provider);
+    service.setConnection(port, csrfToken);
+
+    try {
+      const response: ServerUserStatusResponse = await service.fetchUserStatus();
+      const configs = response.userStatus?.cascadeModelConfigData?.clientModelConfigs;
+
+      if (!response.userStatus) {
+        step.status = 'error';
+        step.details.push('Missing "userStatus"');
+      } else if (!configs?.length) {
+        step.status = 'warning';
+        step.details.push('No clientModelConfigs in response');
+      } else {
+        step.details.push(`${configs.length} model config(s), ${configs.filter(c => c.quotaInfo).length} with quotaInfo`);
+      }
+
+      if (response.userStatus) {
+        const { issues } = this.provider.parseUserStatus(response, new Date());
+        if (issues.length > 0 && step.status === 'ok') {
+          step.status = 'warning';
+        }
+        step.details.push(
+          `Validation: ${issues.length} issue(s)`,
+          ...issues.map(issue => `  ${issue.path}: ${issue.message}`)
+        );
+      }
+
+      step.details.push('Shape:', ...describeShape(response).map(line => `  ${line}`));
+    } catch (error) {
+      step.status = 'error';
+      step.details.push(`Request failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    step.details = step.details.map(line => redactSecrets(line, [csrfToken]));
+    return step;
+  }
+}
+
+/**
+ * Describe the structure of a JSON value as `path: type` lines.
+ * Values are never printed; only the first element of arrays is expanded.
+ */
+export function describeShape(value: unknown, path = '', maxDepth = 6, maxLines = 80): string[] {
+  const lines: string[] = [];
+
+  const visit = (node: unknown, nodePath: string, depth: number): void => {
+    if (lines.length >= maxLines) return;
+    const label = nodePath || '(root)';
+
+    if (Array.isArray(node)) {
+      lines.push(`${label}: array[${node.length}]`);
+      if (node.length > 0 && depth < maxDepth) {
+        visit(node[0], `${nodePath}[0]`, depth + 1);
+      }
+      return;
+    }
+
+    if (node !== null && typeof node === 'object') {
+      const keys = Object.keys(node);
+      lines.push(`${label}: object{${keys.length}}`);
+      if (depth < maxDepth) {
+        for (const key of keys) {
+          visit((node as Record<string, unknown>)[key], nodePath ? `${nodePath}.${key}` : key, depth + 1);
+        }
+      }
+      return;
+    }
+
+    lines.push(`${label}: ${node === null ? 'null' : typeof node}`);
+  };
+
+  visit(value, path, 0);
+
+  if (lines.length >= maxLines) {
+    lines.push('…');
+  }
+  return lines;
+}
+
+/**
+ * Render a report as Markdown for pasting into an issue
+ */
+export function formatDiagnosticsReport(report: DiagnosticsReport): string {
+  const sections = report.steps.map(step => {
+    const body = step.details.length > 0 ? `\n\n\`\`\`\n${step.details.join('\n')}\n\`\`\`` : '';
+    return `### ${STATUS_ICONS[step.status]} ${step.title}${body}`;
+  });
+
+  const markdown = [
+    '# Quota Viewer Diagnostics',
+    '',
+    `Generated: ${report.generatedAt.toISOString()}`,
+    '',
+    ...sections.flatMap(section => [section, ''])
+  ].join('\n');
+
+  // Final safety net in case raw output slipped through
+  return redactSecrets(markdown);
+}
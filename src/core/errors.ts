@@ -0,0 +1,135 @@
+/**
+ * Quota Service Errors
+ * Typed failures for language server requests, so callers can react to each kind
+ */
+
+export type QuotaErrorKind =
+  | 'auth'
+  | 'notFound'
+  | 'server'
+  | 'http'
+  | 'connection'
+  | 'timeout'
+  | 'invalidResponse';
+
+/**
+ * Base class for every failed language server request
+ */
+export abstract class QuotaServiceError extends Error {
+  abstract readonly kind: QuotaErrorKind;
+
+  constructor(
+    message: string,
+    readonly endpoint: string,
+    readonly retryable: boolean,
+    readonly statusCode?: number
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The server rejected the CSRF token (401/403), usually because it restarted with a new one
+ */
+export class AuthError extends QuotaServiceError {
+  readonly kind = 'auth';
+
+  constructor(endpoint: string, statusCode: number, detail?: string) {
+    super(withDetail(`Authentication rejected (HTTP ${statusCode})`, detail), endpoint, false, statusCode);
+  }
+}
+
+/**
+ * The endpoint does not exist (404), so the language server API has changed
+ */
+export class ApiNotFoundError extends QuotaServiceError {
+  readonly kind = 'notFound';
+
+  constructor(endpoint: string, detail?: string) {
+    super(withDetail(`API endpoint not found (HTTP 404): ${endpoint}`, detail), endpoint, false, 404);
+  }
+}
+
+/**
+ * The language server failed internally (5xx); worth retrying later
+ */
+export class ServerError extends QuotaServiceError {
+  readonly kind = 'server';
+
+  constructor(endpoint: string, statusCode: number, detail?: string) {
+    super(withDetail(`Language server error (HTTP ${statusCode})`, detail), endpoint, true, statusCode);
+  }
+}
+
+/**
+ * Any other unexpected HTTP status
+ */
+export class HttpStatusError extends QuotaServiceError {
+  readonly kind = 'http';
+
+  constructor(endpoint: string, statusCode: number, detail?: string) {
+    super(withDetail(`Unexpected HTTP ${statusCode}`, detail), endpoint, false, statusCode);
+  }
+}
+
+/**
+ * The socket could not be opened or was dropped (refused, reset, unreachable)
+ */
+export class ConnectionError extends QuotaServiceError {
+  readonly kind = 'connection';
+  readonly code?: string;
+
+  constructor(endpoint: string, cause: Error) {
+    super(cause.message, endpoint, true);
+    this.code = (cause as NodeJS.ErrnoException).code;
+  }
+}
+
+/**
+ * The server accepted the connection but did not answer in time
+ */
+export class RequestTimeoutError extends QuotaServiceError {
+  readonly kind = 'timeout';
+
+  constructor(endpoint: string, timeoutMs: number) {
+    super(`Request timeout after ${timeoutMs}ms`, endpoint, true);
+  }
+}
+
+/**
+ * The server answered 2xx with a body that is not valid JSON or lacks required data
+ */
+export class InvalidResponseError extends QuotaServiceError {
+  readonly kind = 'invalidResponse';
+
+  constructor(endpoint: string, statusCode?: number, message = 'Invalid JSON response') {
+    super(message, endpoint, false, statusCode);
+  }
+}
+
+/**
+ * Map a non-2xx HTTP status to its error class
+ */
+export function errorForStatus(endpoint: string, statusCode: number, detail?: string): QuotaServiceError {
+  if (statusCode === 401 || statusCode === 403) return new AuthError(endpoint, statusCode, detail);
+  if (statusCode === 404) return new ApiNotFoundError(endpoint, detail);
+  if (statusCode >= 500) return new ServerError(endpoint, statusCode, detail);
+  return new HttpStatusError(endpoint, statusCode, detail);
+}
+
+/**
+ * Extract the `message` of a Connect-protocol error body, if there is one
+ */
+export function parseErrorDetail(body: string): string | undefined {
+  try {
+    const parsed = JSON.parse(body) as { message?: unknown };
+    return typeof parsed.message === 'string' && parsed.message ? parsed.message : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function withDetail(message: string, detail?: string): string {
+  return detail ? `${message}: ${detail}` : message;
+}
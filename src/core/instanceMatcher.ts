@@ -0,0 +1,57 @@
+/**
+ * Instance Matcher
+ * Picks the language server instance that belongs to the current window
+ */
+
+import { ProcessInfo, WindowContext, InstanceMatch } from '../types';
+
+/**
+ * Select the instance serving this window when several are running
+ */
+export function selectInstance(instances: ProcessInfo[], context: WindowContext): InstanceMatch {
+  if (instances.length === 0) {
+    return { instance: null, reason: 'none', candidates: instances };
+  }
+
+  if (instances.length === 1) {
+    return { instance: instances[0], reason: 'single', candidates: instances };
+  }
+
+  // Strategy 1: The language server was spawned by our own extension host
+  const descendants = instances.filter(instance => isDescendantOf(instance, context.hostPid));
+  if (descendants.length === 1) {
+    return { instance: descendants[0], reason: 'ancestry', candidates: instances };
+  }
+
+  // Strategy 2: The language server was started for one of our workspace folders
+  const workspaceIds = context.workspaceUris.map(normalizeWorkspaceId);
+  const pool = descendants.length > 1 ? descendants : instances;
+  const workspaceMatches = pool.filter(
+    instance => instance.workspaceId && workspaceIds.includes(normalizeWorkspaceId(instance.workspaceId))
+  );
+  if (workspaceMatches.length === 1) {
+    return { instance: workspaceMatches[0], reason: 'workspace', candidates: instances };
+  }
+
+  return { instance: null, reason: 'ambiguous', candidates: instances };
+}
+
+/**
+ * Check whether a process descends from the given PID
+ */
+function isDescendantOf(instance: ProcessInfo, pid: number): boolean {
+  if (instance.parentPid === pid) return true;
+  return instance.ancestors?.includes(pid) ?? false;
+}
+
+/**
+ * Normalize a workspace URI or `--workspace_id` value for comparison.
+ * The language server encodes URIs like `file:///c%3A/Users/me` as
+ * `file_c_3A_Users_me`, so only alphanumeric runs are compared.
+ */
+export function normalizeWorkspaceId(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
@@ -0,0 +1,61 @@
+/**
+ * Manual Connection
+ * Resolves a user-provided language server endpoint that bypasses auto-detection
+ */
+
+import { ManualConnection } from '../types';
+
+export const MANUAL_TOKEN_SECRET_KEY = 'quotaViewer.connection.csrfToken';
+
+export const ENV_HOST = 'QUOTA_VIEWER_HOST';
+export const ENV_PORT = 'QUOTA_VIEWER_PORT';
+export const ENV_CSRF_TOKEN = 'QUOTA_VIEWER_CSRF_TOKEN';
+
+const DEFAULT_HOST = '127.0.0.1';
+
+/**
+ * Resolve the manual connection from environment variables, settings and the stored token.
+ * Environment variables take precedence; returns null when no complete override exists.
+ */
+export function resolveManualConnection(
+  settings: { host: string; port: number },
+  storedToken: string | undefined,
+  env: NodeJS.ProcessEnv = process.env
+): ManualConnection | null {
+  const envPort = parsePort(env[ENV_PORT]);
+  const envToken = env[ENV_CSRF_TOKEN]?.trim();
+
+  if (envPort && envToken) {
+    return {
+      host: env[ENV_HOST]?.trim() || settings.host || DEFAULT_HOST,
+      port: envPort,
+      csrfToken: envToken,
+      source: 'environment'
+    };
+  }
+
+  const token = envToken || storedToken;
+  if (isValidPort(settings.port) && token) {
+    return {
+      host: settings.host || DEFAULT_HOST,
+      port: settings.port,
+      csrfToken: token,
+      source: 'settings'
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Parse a port number, returning null if it is not a valid TCP port
+ */
+export function parsePort(value: string | undefined): number | null {
+  if (!value || !/^\d+$/.test(value.trim())) return null;
+  const port = parseInt(value, 10);
+  return isValidPort(port) ? port : null;
+}
+
+function isValidPort(port: number): boolean {
+  return Number.isInteger(port) && port > 0 && port <= 65535;
+}
@@ -0,0 +1,148 @@
+/**
+ * Model Naming
+ * Splits model labels into vendor, family, version, variant and tier, and renders
+ * the short, medium and long display names used across the UI, honoring user aliases
+ */
+
+import { ModelNameForm, ParsedModelName } from '../types';
+
+/** Vendors by family, lowercase; only informational */
+const VENDORS: Record<string, string> = {
+  claude: 'Anthropic',
+  gemini: 'Google',
+  gemma: 'Google',
+  gpt: 'OpenAI',
+  o1: 'OpenAI',
+  o3: 'OpenAI',
+  o4: 'OpenAI',
+  grok: 'xAI',
+  llama: 'Meta',
+  deepseek: 'DeepSeek',
+  qwen: 'Alibaba',
+  kimi: 'Moonshot AI',
+  mistral: 'Mistral',
+  codestral: 'Mistral',
+  swe: 'Windsurf'
+};
+/** Tiers common enough to get a one-character mark in compact names */
+const TIER_MARKS: Record<string, string> = {
+  high: '↑',
+  low: '↓'
+};
+/** e.g. 4.5, 3, 4o, v2 */
+const VERSION_PATTERN = /^v?\d+(\.\d+)*[a-z]?$/i;
+/** Parameter counts such as 120B belong to the variant, not the version */
+const SIZE_PATTERN = /^\d+(\.\d+)?[bkm]$/i;
+const SHORT_MAX_LENGTH = 16;
+
+export class ModelNamer {
+  private aliases: Record<string, string> = {};
+
+  constructor(aliases: Record<string, string> = {}) {
+    this.setAliases(aliases);
+  }
+
+  /**
+   * Replace the user-defined display names (model ID -> name); blank names are ignored
+   */
+  setAliases(aliases: Record<string, string>): void {
+    this.aliases = {};
+    for (const [modelId, alias] of Object.entries(aliases ?? {})) {
+      if (typeof alias === 'string' && alias.trim()) {
+        this.aliases[modelId] = alias.trim();
+      }
+    }
+  }
+
+  /**
+   * Display name of a model. An alias replaces the short and medium forms;
+   * the long form keeps the server label next to it.
+   */
+  name(model: { modelId: string; label: string }, form: ModelNameForm): string {
+    const alias = this.aliases[model.modelId];
+    if (alias) {
+      return form === 'long' && alias !== model.label ? `${alias} (${model.label})` : alias;
+    }
+    return formatModelName(model.label, form);
+  }
+}
+
+/**
+ * Split a label into its parts. Anything that is not the family, a version or
+ * the trailing parenthesized tier becomes the variant, so unknown models still parse.
+ */
+export function parseModelName(label: string): ParsedModelName {
+  const { base, tier } = splitTier(label);
+  const words = base.split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return { family: base, tier };
+  }
+
+  // "GPT-4o", "GPT-OSS", "SWE-1.5": the family is the part before the hyphen
+  const [first, ...rest] = words;
+  const hyphenated = first.match(/^([A-Za-z]+)-(.+)$/);
+  const family = hyphenated ? hyphenated[1] : first;
+  const parts = hyphenated ? [hyphenated[2], ...rest] : rest;
+
+  let version: string | undefined;
+  const variant: string[] = [];
+  for (const part of parts) {
+    if (!version && !SIZE_PATTERN.test(part) && VERSION_PATTERN.test(part)) {
+      version = part;
+    } else {
+      variant.push(part);
+    }
+  }
+
+  const parsed: ParsedModelName = { family };
+  const vendor = VENDORS[family.toLowerCase()];
+  if (vendor) parsed.vendor = vendor;
+  if (version) parsed.version = version;
+  if (variant.length > 0) parsed.variant = variant.join(' ');
+  if (tier) parsed.tier = tier;
+  return parsed;
+}
+
+/**
+ * Render a label in one of the display forms:
+ * - short: family and variant (or version) with a tier mark, e.g. "Gemini Pro ↑", "GPT-4o"
+ * - medium: the label with common tiers as marks, e.g. "Gemini 3 Pro ↑"
+ * - long: the label as the server reports it
+ */
+export function formatModelName(label: string, form: ModelNameForm): string {
+  if (form === 'long') return label;
+
+  const { base, tier } = splitTier(label);
+  const mark = tier ? TIER_MARKS[tier.toLowerCase()] : undefined;
+
+  if (form === 'medium') {
+    if (!tier) return base;
+    return mark ? `${base} ${mark}` : `${base} (${tier})`;
+  }
+
+  const parsed = parseModelName(label);
+  const hyphenated = /^[A-Za-z]+-/.test(base);
+  const detail = parsed.variant?.split(' ')[0] ?? parsed.version;
+  const name = detail ? `${parsed.family}${hyphenated ? '-' : ' '}${detail}` : parsed.family;
+  return truncate(mark ? `${name} ${mark}` : name, SHORT_MAX_LENGTH);
+}
+
+/**
+ * Separate a trailing "(High)"-style tier from the rest of the label
+ */
+function splitTier(label: string): { base: string; tier?: string } {
+  const trimmed = label.trim();
+  const match = trimmed.match(/^(.*\S)\s*\(([^()]+)\)$/);
+  return match ? { base: match[1], tier: match[2].trim() } : { base: trimmed };
+}
+
+/**
+ * Cut at a word boundary when possible, marking the cut with an ellipsis
+ */
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+
+  const cut = text.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > 0 ? cut.slice(0, lastSpace) : cut}…`;
+}
@@ -1,8 +1,50 @@
 /**
- * Platform-specific strategies for detecting Antigravity process
+ * Platform-specific strategies for detecting language server processes
  */
 
-import { PlatformStrategy } from '../types';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CommandSpec, PlatformStrategy, ProcessCandidate } from '../types';
+import { antigravityProvider } from './providers';
+
+/** Decides whether a language server command line belongs to the selected host */
+export type ProcessFilter = (commandLine: string) => boolean;
+
+const defaultFilter: ProcessFilter = commandLine => antigravityProvider.matchesProcess(commandLine);
+
+/**
+ * Extract the workspace the language server was started for, if any
+ */
+function parseWorkspaceId(commandLine: string): string | undefined {
+  const match = commandLine.match(/--workspace_id[=\s]+(\S+)/);
+  return match?.[1];
+}
+
+/**
+ * Reject process names that could break out of a PowerShell/WMI filter string
+ */
+function assertSafeProcessName(processName: string): void {
+  if (!/^[\w.-]+$/.test(processName)) {
+    throw new Error(`Unsafe process name: ${processName}`);
+  }
+}
+
+/**
+ * Reject anything but a positive integer PID
+ */
+function assertValidPid(pid: number): void {
+  if (!Number.isInteger(pid) || pid <= 0) {
+    throw new Error(`Invalid PID: ${pid}`);
+  }
+}
+
+/**
+ * Parse a single PID printed on its own
+ */
+function parsePid(stdout: string): number | null {
+  const pid = parseInt(stdout.trim(), 10);
+  return Number.isNaN(pid) || pid <= 0 ? null : pid;
+}
 
 /**
  * Windows strategy using PowerShell/wmic for process detection
@@ -10,67 +52,52 @@ import { PlatformStrategy } from '../types';
 export class WindowsStrategy implements PlatformStrategy {
   private usePowerShell = true;
 
-  /**
-   * Check if a command line belongs to an Antigravity process
-   */
-  private isAntigravityProcess(commandLine: string): boolean {
-    const lowerCmd = commandLine.toLowerCase();
-    if (/--app_data_dir\s+antigravity\b/i.test(commandLine)) {
-      return true;
-    }
-    if (lowerCmd.includes('\\antigravity\\') || lowerCmd.includes('/antigravity/')) {
-      return true;
-    }
-    return false;
-  }
+  constructor(private matchesProcess: ProcessFilter = defaultFilter) {}
+
+  getProcessListCommand(processName: string): CommandSpec {
+    assertSafeProcessName(processName);
 
-  getProcessListCommand(processName: string): string {
     if (this.usePowerShell) {
-      return `powershell -NoProfile -Command "Get-CimInstance Win32_Process -Filter \\"name='${processName}'\\" | Select-Object ProcessId,CommandLine | ConvertTo-Json"`;
+      return {
+        file: 'powershell.exe',
+        args: [
+          '-NoProfile',
+          '-NonInteractive',
+          '-Command',
+          `Get-CimInstance Win32_Process -Filter "name='${processName}'" | Select-Object ProcessId,ParentProcessId,CommandLine | ConvertTo-Json`
+        ]
+      };
     }
-    return `wmic process where "name='${processName}'" get ProcessId,CommandLine /format:list`;
+    return {
+      file: 'wmic.exe',
+      args: ['process', 'where', `name='${processName}'`, 'get', 'ProcessId,ParentProcessId,CommandLine', '/format:list']
+    };
   }
 
-  parseProcessInfo(stdout: string): { pid: number; extensionPort: number; csrfToken: string } | null {
+  parseProcessInfo(stdout: string): ProcessCandidate[] {
     // Try JSON parsing first (PowerShell output)
     if (this.usePowerShell || stdout.trim().startsWith('{') || stdout.trim().startsWith('[')) {
       try {
-        let data = JSON.parse(stdout.trim());
-        
-        if (Array.isArray(data)) {
-          if (data.length === 0) return null;
-          
-          const antigravityProcesses = data.filter(
-            (item: { CommandLine?: string }) => item.CommandLine && this.isAntigravityProcess(item.CommandLine)
-          );
-          
-          if (antigravityProcesses.length === 0) {
-            console.log('[WindowsStrategy] No Antigravity process found');
-            return null;
+        const data = JSON.parse(stdout.trim());
+        const items: { ProcessId?: number; ParentProcessId?: number; CommandLine?: string }[] =
+          Array.isArray(data) ? data : [data];
+
+        const candidates: ProcessCandidate[] = [];
+        for (const item of items) {
+          if (!item.ProcessId || !item.CommandLine || !this.matchesProcess(item.CommandLine)) {
+            continue;
           }
-          
-          data = antigravityProcesses[0];
-        } else {
-          if (!data.CommandLine || !this.isAntigravityProcess(data.CommandLine)) {
-            return null;
+
+          const candidate = this.parseCommandLine(item.ProcessId, item.CommandLine, item.ParentProcessId);
+          if (candidate) {
+            candidates.push(candidate);
           }
         }
 
-        const commandLine = data.CommandLine || '';
-        const pid = data.ProcessId;
-
-        if (!pid) return null;
-
-        const portMatch = commandLine.match(/--extension_server_port[=\s]+(\d+)/);
-        const tokenMatch = commandLine.match(/--csrf_token[=\s]+([a-f0-9-]+)/i);
-
-        if (!tokenMatch?.[1]) return null;
-
-        return {
-          pid,
-          extensionPort: portMatch?.[1] ? parseInt(portMatch[1], 10) : 0,
-          csrfToken: tokenMatch[1]
-        };
+        if (candidates.length === 0) {
+          console.log('[WindowsStrategy] No matching language server process found');
+        }
+        return candidates;
       } catch {
         // Fall through to wmic parsing
       }
@@ -78,41 +105,81 @@ export class WindowsStrategy implements PlatformStrategy {
 
     // WMIC format parsing
     const blocks = stdout.split(/\n\s*\n/).filter(block => block.trim().length > 0);
-    
+    const candidates: ProcessCandidate[] = [];
+
     for (const block of blocks) {
-      const pidMatch = block.match(/ProcessId=(\d+)/);
+      const pidMatch = block.match(/^\s*ProcessId=(\d+)/m);
+      const parentPidMatch = block.match(/ParentProcessId=(\d+)/);
       const commandLineMatch = block.match(/CommandLine=(.+)/);
 
       if (!pidMatch || !commandLineMatch) continue;
 
       const commandLine = commandLineMatch[1].trim();
-      if (!this.isAntigravityProcess(commandLine)) continue;
+      if (!this.matchesProcess(commandLine)) continue;
 
-      const portMatch = commandLine.match(/--extension_server_port[=\s]+(\d+)/);
-      const tokenMatch = commandLine.match(/--csrf_token[=\s]+([a-f0-9-]+)/i);
+      const candidate = this.parseCommandLine(
+        parseInt(pidMatch[1], 10),
+        commandLine,
+        parentPidMatch ? parseInt(parentPidMatch[1], 10) : undefined
+      );
+      if (candidate) {
+        candidates.push(candidate);
+      }
+    }
 
-      if (!tokenMatch?.[1]) continue;
+    return candidates;
+  }
 
-      return {
-        pid: parseInt(pidMatch[1], 10),
-        extensionPort: portMatch?.[1] ? parseInt(portMatch[1], 10) : 0,
-        csrfToken: tokenMatch[1]
-      };
-    }
+  /**
+   * Extract connection arguments from a language server command line
+   */
+  private parseCommandLine(pid: number, commandLine: string, parentPid?: number): ProcessCandidate | null {
+    const portMatch = commandLine.match(/--extension_server_port[=\s]+(\d+)/);
+    const tokenMatch = commandLine.match(/--csrf_token[=\s]+([a-f0-9-]+)/i);
+
+    if (!tokenMatch?.[1]) return null;
+
+    return {
+      pid,
+      parentPid,
+      extensionPort: portMatch?.[1] ? parseInt(portMatch[1], 10) : 0,
+      csrfToken: tokenMatch[1],
+      workspaceId: parseWorkspaceId(commandLine)
+    };
+  }
 
-    return null;
+  getParentPidCommand(pid: number): CommandSpec {
+    assertValidPid(pid);
+    return {
+      file: 'powershell.exe',
+      args: [
+        '-NoProfile',
+        '-NonInteractive',
+        '-Command',
+        `(Get-CimInstance Win32_Process -Filter "ProcessId=${pid}").ParentProcessId`
+      ]
+    };
   }
 
-  getPortListCommand(pid: number): string {
-    return `netstat -ano | findstr "${pid}" | findstr "LISTENING"`;
+  parseParentPid(stdout: string): number | null {
+    return parsePid(stdout);
   }
 
-  parseListeningPorts(stdout: string): number[] {
-    const portRegex = /(?:127\.0\.0\.1|0\.0\.0\.0|\[::1?\]):(\d+)\s+\S+\s+LISTENING/gi;
+  getPortListCommands(pid: number): CommandSpec[] {
+    assertValidPid(pid);
+    // `-p TCP` would leave out IPv6 sockets, so TCP rows are picked by the parser
+    return [{ file: 'netstat.exe', args: ['-ano'] }];
+  }
+
+  parseListeningPorts(stdout: string, pid: number): number[] {
+    // netstat format: TCP    127.0.0.1:42424    0.0.0.0:0    LISTENING    12345
+    const portRegex = /^\s*TCP\s+(?:127\.0\.0\.1|0\.0\.0\.0|\[::1?\]):(\d+)\s+\S+\s+LISTENING\s+(\d+)/gim;
     const ports: number[] = [];
     let match;
 
     while ((match = portRegex.exec(stdout)) !== null) {
+      if (parseInt(match[2], 10) !== pid) continue;
+
       const port = parseInt(match[1], 10);
       if (!ports.includes(port)) {
         ports.push(port);
@@ -127,43 +194,64 @@ export class WindowsStrategy implements PlatformStrategy {
  * Unix strategy (macOS/Linux) using pgrep and lsof/ss
  */
 export class UnixStrategy implements PlatformStrategy {
-  constructor(private platform: 'darwin' | 'linux') {}
+  constructor(
+    private platform: 'darwin' | 'linux',
+    private matchesProcess: ProcessFilter = defaultFilter
+  ) {}
 
-  getProcessListCommand(processName: string): string {
-    return `pgrep -fl ${processName}`;
+  getProcessListCommand(processName: string): CommandSpec {
+    return { file: 'pgrep', args: ['-fl', processName] };
   }
 
-  parseProcessInfo(stdout: string): { pid: number; extensionPort: number; csrfToken: string } | null {
+  parseProcessInfo(stdout: string): ProcessCandidate[] {
     const lines = stdout.split('\n');
-    
+    const candidates: ProcessCandidate[] = [];
+
     for (const line of lines) {
       if (line.includes('--extension_server_port')) {
         const parts = line.trim().split(/\s+/);
         const pid = parseInt(parts[0], 10);
-        const cmd = line.substring(parts[0].length).trim();
+        const cmd = line.trim().substring(parts[0].length).trim();
+
+        // Several Codeium-family hosts ship identically named servers
+        if (!this.matchesProcess(cmd)) continue;
 
         const portMatch = cmd.match(/--extension_server_port[=\s]+(\d+)/);
         const tokenMatch = cmd.match(/--csrf_token[=\s]+([a-zA-Z0-9-]+)/);
 
-        return {
+        candidates.push({
           pid,
           extensionPort: portMatch ? parseInt(portMatch[1], 10) : 0,
-          csrfToken: tokenMatch ? tokenMatch[1] : ''
-        };
+          csrfToken: tokenMatch ? tokenMatch[1] : '',
+          workspaceId: parseWorkspaceId(cmd)
+        });
       }
     }
-    
-    return null;
+
+    return candidates;
+  }
+
+  getParentPidCommand(pid: number): CommandSpec {
+    assertValidPid(pid);
+    return { file: 'ps', args: ['-o', 'ppid=', '-p', String(pid)] };
+  }
+
+  parseParentPid(stdout: string): number | null {
+    return parsePid(stdout);
   }
 
-  getPortListCommand(pid: number): string {
+  getPortListCommands(pid: number): CommandSpec[] {
+    assertValidPid(pid);
+    // -a ANDs the selections so only this PID's listening sockets are listed
+    const lsof: CommandSpec = { file: 'lsof', args: ['-a', '-iTCP', '-sTCP:LISTEN', '-n', '-P', '-p', String(pid)] };
+
     if (this.platform === 'darwin') {
-      return `lsof -iTCP -sTCP:LISTEN -n -P -p ${pid}`;
+      return [lsof];
     }
-    return `ss -tlnp 2>/dev/null | grep "pid=${pid}" || lsof -iTCP -sTCP:LISTEN -n -P -p ${pid} 2>/dev/null`;
+    return [{ file: 'ss', args: ['-tlnp'] }, lsof];
   }
 
-  parseListeningPorts(stdout: string): number[] {
+  parseListeningPorts(stdout: string, pid: number): number[] {
     const ports: number[] = [];
 
     if (this.platform === 'darwin') {
@@ -177,10 +265,15 @@ export class UnixStrategy implements PlatformStrategy {
         }
       }
     } else {
-      // ss format: LISTEN 0 128 *:42424
+      // ss format: LISTEN 0 128 *:42424 ... users:(("language_server",pid=1234,fd=5))
+      // ss lists every process, so keep only this PID's lines
+      const ownLines = stdout
+        .split('\n')
+        .filter(line => line.includes(`pid=${pid},`))
+        .join('\n');
       const ssRegex = /LISTEN\s+\d+\s+\d+\s+(?:\*|[\d.]+|\[[\da-f:]*\]):(\d+)/gi;
       let match;
-      while ((match = ssRegex.exec(stdout)) !== null) {
+      while ((match = ssRegex.exec(ownLines)) !== null) {
         const port = parseInt(match[1], 10);
         if (!ports.includes(port)) {
           ports.push(port);
@@ -202,3 +295,126 @@ export class UnixStrategy implements PlatformStrategy {
     return ports.sort((a, b) => a - b);
   }
 }
+
+/**
+ * Linux strategy reading /proc directly, without spawning pgrep/ss/lsof.
+ * The inherited shell commands remain available as a fallback.
+ */
+export class LinuxProcStrategy extends UnixStrategy {
+  constructor(private procRoot = '/proc', matchesProcess: ProcessFilter = defaultFilter) {
+    super('linux', matchesProcess);
+  }
+
+  /**
+   * Scan /proc/<pid>/cmdline for language server processes
+   */
+  async findProcesses(processName: string): Promise<ProcessCandidate[]> {
+    const entries = await fs.readdir(this.procRoot);
+    const lines: string[] = [];
+
+    for (const entry of entries) {
+      if (!/^\d+$/.test(entry)) continue;
+
+      const args = await this.readCmdline(entry);
+      if (args.length === 0 || !path.basename(args[0]).startsWith(processName)) continue;
+
+      lines.push(`${entry} ${args.join(' ')}`);
+    }
+
+    // Reuse the pgrep parser so both paths extract identical fields
+    const candidates = this.parseProcessInfo(lines.join('\n'));
+    for (const candidate of candidates) {
+      candidate.parentPid = (await this.findParentPid(candidate.pid)) ?? undefined;
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Resolve listening TCP ports owned by a process via its socket inodes
+   */
+  async findListeningPorts(pid: number): Promise<number[]> {
+    const fdDir = path.join(this.procRoot, String(pid), 'fd');
+    const fds = await fs.readdir(fdDir);
+    const inodes = new Set<string>();
+
+    for (const fd of fds) {
+      try {
+        const target = await fs.readlink(path.join(fdDir, fd));
+        const match = target.match(/^socket:\[(\d+)\]$/);
+        if (match) {
+          inodes.add(match[1]);
+        }
+      } catch {
+        // fd closed while iterating
+      }
+    }
+
+    const ports: number[] = [];
+    for (const table of ['tcp', 'tcp6']) {
+      let content: string;
+      try {
+        content = await fs.readFile(path.join(this.procRoot, 'net', table), 'utf8');
+      } catch {
+        continue;
+      }
+
+      for (const socket of this.parseListeningSockets(content)) {
+        if (inodes.has(socket.inode) && !ports.includes(socket.port)) {
+          ports.push(socket.port);
+        }
+      }
+    }
+
+    return ports.sort((a, b) => a - b);
+  }
+
+  /**
+   * Read the parent PID from /proc/<pid>/stat
+   */
+  async findParentPid(pid: number): Promise<number | null> {
+    try {
+      const stat = await fs.readFile(path.join(this.procRoot, String(pid), 'stat'), 'utf8');
+      // The command name is wrapped in parentheses and may contain spaces
+      const fields = stat.substring(stat.lastIndexOf(')') + 2).split(' ');
+      return parsePid(fields[1] ?? '');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Parse LISTEN entries from /proc/net/tcp or /proc/net/tcp6
+   */
+  parseListeningSockets(content: string): { port: number; inode: string }[] {
+    const sockets: { port: number; inode: string }[] = [];
+
+    for (const line of content.split('\n').slice(1)) {
+      const fields = line.trim().split(/\s+/);
+      if (fields.length < 10) continue;
+
+      // st 0A = TCP_LISTEN
+      if (fields[3] !== '0A') continue;
+
+      const port = parseInt(fields[1].split(':')[1], 16);
+      if (!Number.isNaN(port)) {
+        sockets.push({ port, inode: fields[9] });
+      }
+    }
+
+    return sockets;
+  }
+
+  /**
+   * Read the NUL-separated argument vector of a process
+   */
+  private async readCmdline(pid: string): Promise<string[]> {
+    try {
+      const raw = await fs.readFile(path.join(this.procRoot, pid, 'cmdline'), 'utf8');
+      return raw.split('\0').filter(arg => arg.length > 0);
+    } catch {
+      // Process exited or is not readable
+      return [];
+    }
+  }
+}
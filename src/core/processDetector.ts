@@ -1,63 +1,71 @@
 /**
  * Process Detector Service
- * Detects Antigravity's language server process and extracts connection info
+ * Detects a Codeium-family language server process and extracts connection info
  */
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import * as https from 'https';
 import * as process from 'process';
-import { ProcessInfo, PlatformStrategy } from '../types';
-import { WindowsStrategy, UnixStrategy } from './platformStrategies';
-
-const execAsync = promisify(exec);
+import {
+  ProcessInfo,
+  ProcessCandidate,
+  PlatformStrategy,
+  PortProbeResult,
+  DiagnosticStep,
+  DetectionDiagnostics,
+  QuotaProvider
+} from '../types';
+import { WindowsStrategy, UnixStrategy, LinuxProcStrategy } from './platformStrategies';
+import { redactToken, redactSecrets } from './redact';
+import { runCommand, formatCommand } from './commandRunner';
+import { antigravityProvider } from './providers';
 
 export class ProcessDetector {
   private strategy: PlatformStrategy;
   private processName: string;
 
-  constructor() {
+  constructor(private provider: QuotaProvider = antigravityProvider) {
+    const matchesProcess = (commandLine: string) => provider.matchesProcess(commandLine);
     if (process.platform === 'win32') {
-      this.strategy = new WindowsStrategy();
-      this.processName = 'language_server_windows_x64.exe';
+      this.strategy = new WindowsStrategy(matchesProcess);
     } else if (process.platform === 'darwin') {
-      this.strategy = new UnixStrategy('darwin');
-      this.processName = `language_server_macos${process.arch === 'arm64' ? '_arm' : ''}`;
+      this.strategy = new UnixStrategy('darwin', matchesProcess);
     } else {
-      this.strategy = new UnixStrategy('linux');
-      this.processName = 'language_server_linux';
+      this.strategy = new LinuxProcStrategy('/proc', matchesProcess);
     }
+    this.processName = provider.getProcessName(process.platform, process.arch);
   }
 
   /**
-   * Detect Antigravity process and return connection info
+   * Detect every running language server of the selected provider and return connection info
+   * for each one that answers on a working port.
+   * Aborting `signal` stops the detection and resolves with no instances.
    */
-  async detect(maxRetries = 3): Promise<ProcessInfo | null> {
+  async detect(maxRetries = 3, signal?: AbortSignal): Promise<ProcessInfo[]> {
     for (let i = 0; i < maxRetries; i++) {
+      if (signal?.aborted) break;
+
       try {
-        const cmd = this.strategy.getProcessListCommand(this.processName);
-        console.log(`[ProcessDetector] Executing: ${cmd}`);
-        
-        const { stdout } = await execAsync(cmd, { timeout: 5000 });
-        const info = this.strategy.parseProcessInfo(stdout);
-
-        if (info) {
-          const ports = await this.getListeningPorts(info.pid);
-          console.log(`[ProcessDetector] Found ports: ${ports.join(', ')}`);
-
-          if (ports.length > 0) {
-            const validPort = await this.findWorkingPort(ports, info.csrfToken);
-            
-            if (validPort) {
-              console.log(`[ProcessDetector] Valid port found: ${validPort}`);
-              return {
-                pid: info.pid,
-                extensionPort: info.extensionPort,
-                connectPort: validPort,
-                csrfToken: info.csrfToken
-              };
+        const candidates = await this.findCandidates();
+        const instances: ProcessInfo[] = [];
+
+        for (const candidate of candidates) {
+          if (signal?.aborted) break;
+          const instance = await this.resolveCandidate(candidate, signal);
+          if (instance) {
+            instances.push(instance);
+          }
+        }
+
+        if (signal?.aborted) break;
+
+        if (instances.length > 0) {
+          // Ancestry is only needed to tell several instances apart
+          if (instances.length > 1) {
+            for (const instance of instances) {
+              instance.ancestors = await this.getAncestors(instance);
             }
           }
+          return instances;
         }
       } catch (error) {
         console.error(`[ProcessDetector] Attempt ${i + 1} failed:`, error);
@@ -65,69 +73,372 @@ export class ProcessDetector {
 
       // Wait before retry
       if (i < maxRetries - 1) {
-        await new Promise(resolve => setTimeout(resolve, 500));
+        await delay(500, signal);
       }
     }
 
-    return null;
+    if (signal?.aborted) {
+      console.log('[ProcessDetector] Detection cancelled');
+    }
+    return [];
   }
 
   /**
-   * Get listening ports for a process
+   * List candidate processes, preferring the strategy's native lookup
    */
-  private async getListeningPorts(pid: number): Promise<number[]> {
+  private async findCandidates(): Promise<ProcessCandidate[]> {
+    if (this.strategy.findProcesses) {
+      try {
+        return await this.strategy.findProcesses(this.processName);
+      } catch (error) {
+        console.warn('[ProcessDetector] Native process lookup failed, falling back to shell:', error);
+      }
+    }
+
+    const command = this.strategy.getProcessListCommand(this.processName);
+    console.log(`[ProcessDetector] Executing: ${formatCommand(command)}`);
+
+    const stdout = await runCommand(command, { timeoutMs: 5000 });
+    return this.strategy.parseProcessInfo(stdout);
+  }
+
+  /**
+   * Find the working API port of a candidate process
+   */
+  private async resolveCandidate(candidate: ProcessCandidate, signal?: AbortSignal): Promise<ProcessInfo | null> {
+    const ports = await this.getListeningPorts(candidate.pid);
+    console.log(`[ProcessDetector] PID ${candidate.pid} ports: ${ports.join(', ')}`);
+
+    if (ports.length === 0) return null;
+
+    const validPort = await this.findWorkingPort(ports, candidate.csrfToken, signal);
+    if (!validPort) return null;
+
+    console.log(`[ProcessDetector] Valid port found: ${validPort}`);
+    return {
+      pid: candidate.pid,
+      extensionPort: candidate.extensionPort,
+      connectPort: validPort,
+      csrfToken: candidate.csrfToken,
+      parentPid: candidate.parentPid,
+      workspaceId: candidate.workspaceId
+    };
+  }
+
+  /**
+   * Walk up the process tree from an instance's parent
+   */
+  private async getAncestors(instance: ProcessInfo, maxDepth = 4): Promise<number[]> {
+    const ancestors: number[] = [];
+    let parent = instance.parentPid ?? await this.getParentPid(instance.pid);
+
+    while (parent && parent > 1 && !ancestors.includes(parent) && ancestors.length < maxDepth) {
+      ancestors.push(parent);
+      parent = await this.getParentPid(parent);
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Get the parent PID of a process
+   */
+  private async getParentPid(pid: number): Promise<number | null> {
+    if (this.strategy.findParentPid) {
+      const parentPid = await this.strategy.findParentPid(pid);
+      if (parentPid !== null) return parentPid;
+    }
+
     try {
-      const cmd = this.strategy.getPortListCommand(pid);
-      const { stdout } = await execAsync(cmd, { timeout: 3000 });
-      return this.strategy.parseListeningPorts(stdout);
+      const stdout = await runCommand(this.strategy.getParentPidCommand(pid), { timeoutMs: 3000 });
+      return this.strategy.parseParentPid(stdout);
     } catch {
-      return [];
+      return null;
     }
   }
 
   /**
-   * Find a working port by testing the API
+   * Get listening ports for a process
    */
-  private async findWorkingPort(ports: number[], csrfToken: string): Promise<number | null> {
-    for (const port of ports) {
-      if (await this.testPort(port, csrfToken)) {
-        return port;
+  private async getListeningPorts(pid: number): Promise<number[]> {
+    if (this.strategy.findListeningPorts) {
+      try {
+        const ports = await this.strategy.findListeningPorts(pid);
+        if (ports.length > 0) return ports;
+      } catch (error) {
+        console.warn('[ProcessDetector] Native port lookup failed, falling back to shell:', error);
+      }
+    }
+
+    for (const command of this.strategy.getPortListCommands(pid)) {
+      try {
+        const stdout = await runCommand(command, { timeoutMs: 3000 });
+        const ports = this.strategy.parseListeningPorts(stdout, pid);
+        if (ports.length > 0) return ports;
+      } catch {
+        // Tool missing or failed: try the next one
       }
     }
-    return null;
+
+    return [];
+  }
+
+  /**
+   * Find a working port by probing every port at once.
+   * Resolves with the first port that answers and aborts the remaining probes.
+   */
+  private findWorkingPort(ports: number[], csrfToken: string, signal?: AbortSignal): Promise<number | null> {
+    if (ports.length === 0 || signal?.aborted) return Promise.resolve(null);
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+
+    return new Promise<number | null>(resolve => {
+      let pending = ports.length;
+
+      for (const port of ports) {
+        this.probePort(port, csrfToken, '127.0.0.1', controller.signal).then(result => {
+          pending--;
+          if (result.ok && !controller.signal.aborted) {
+            controller.abort();
+            resolve(port);
+          } else if (pending === 0) {
+            resolve(null);
+          }
+        });
+      }
+    }).finally(() => {
+      signal?.removeEventListener('abort', abort);
+      controller.abort();
+    });
+  }
+
+  /**
+   * Test if a port responds to the provider's API
+   */
+  async testPort(port: number, csrfToken: string, host = '127.0.0.1'): Promise<boolean> {
+    const result = await this.probePort(port, csrfToken, host);
+    return result.ok;
   }
 
   /**
-   * Test if a port responds to the Antigravity API
+   * Probe a port with the provider's probe endpoint and report how it answered
    */
-  private testPort(port: number, csrfToken: string): Promise<boolean> {
+  probePort(port: number, csrfToken: string, host = '127.0.0.1', signal?: AbortSignal): Promise<PortProbeResult> {
+    const startedAt = Date.now();
+    const finish = (result: Omit<PortProbeResult, 'port' | 'durationMs'>): PortProbeResult => ({
+      port,
+      durationMs: Date.now() - startedAt,
+      ...result
+    });
+
+    if (signal?.aborted) {
+      return Promise.resolve(finish({ ok: false, error: 'Aborted' }));
+    }
+
     return new Promise(resolve => {
       const options: https.RequestOptions = {
-        hostname: '127.0.0.1',
+        hostname: host,
         port,
-        path: '/exa.language_server_pb.LanguageServerService/GetUnleashData',
+        path: this.provider.probeEndpoint,
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-Codeium-Csrf-Token': csrfToken,
+          [this.provider.csrfHeader]: csrfToken,
           'Connect-Protocol-Version': '1'
         },
         rejectUnauthorized: false,
-        timeout: 1000
+        timeout: 1000,
+        signal
       };
 
       const req = https.request(options, res => {
-        resolve(res.statusCode === 200);
+        resolve(finish({ ok: res.statusCode === 200, statusCode: res.statusCode }));
       });
 
-      req.on('error', () => resolve(false));
+      req.on('error', error => resolve(finish({
+        ok: false,
+        error: error.name === 'AbortError' ? 'Aborted' : error.message
+      })));
       req.on('timeout', () => {
         req.destroy();
-        resolve(false);
+        resolve(finish({ ok: false, error: 'Timeout' }));
       });
 
       req.write(JSON.stringify({ wrapper_data: {} }));
       req.end();
     });
   }
+
+  /**
+   * Run each detection stage and record what happened, for bug reports.
+   * Tokens are redacted before they are recorded.
+   */
+  async diagnose(): Promise<DetectionDiagnostics> {
+    const steps: DiagnosticStep[] = [];
+    const instances: ProcessInfo[] = [];
+
+    steps.push({
+      title: 'Platform',
+      status: 'ok',
+      details: [
+        `Provider: ${this.provider.displayName}`,
+        `Platform: ${process.platform} (${process.arch})`,
+        `Strategy: ${this.strategy.constructor.name}`,
+        `Process name: ${this.processName}`
+      ]
+    });
+
+    // Stage 1: process list
+    const listStep: DiagnosticStep = { title: 'Process list', status: 'ok', details: [] };
+    steps.push(listStep);
+    let candidates: ProcessCandidate[] = [];
+
+    if (this.strategy.findProcesses) {
+      try {
+        candidates = await this.strategy.findProcesses(this.processName);
+        listStep.details.push(`Native lookup: ${candidates.length} candidate(s)`);
+      } catch (error) {
+        listStep.details.push(`Native lookup failed: ${errorMessage(error)}`);
+      }
+    }
+
+    if (candidates.length === 0) {
+      const command = this.strategy.getProcessListCommand(this.processName);
+      listStep.details.push(`Command: ${formatCommand(command)}`);
+      try {
+        const stdout = await runCommand(command, { timeoutMs: 5000 });
+        listStep.details.push('Output:', ...formatOutput(stdout));
+        candidates = this.strategy.parseProcessInfo(stdout);
+      } catch (error) {
+        listStep.status = 'error';
+        listStep.details.push(`Command failed: ${errorMessage(error)}`);
+      }
+    }
+
+    // Stage 2: parsed PID/token
+    const tokens = candidates.map(candidate => candidate.csrfToken);
+    const parseStep: DiagnosticStep = {
+      title: 'Parsed processes',
+      status: candidates.length > 0 ? 'ok' : 'error',
+      details: candidates.length > 0
+        ? candidates.map(candidate =>
+          `PID ${candidate.pid}` +
+          (candidate.parentPid ? ` (parent ${candidate.parentPid})` : '') +
+          `: extension port ${candidate.extensionPort || 'none'}, token ${redactToken(candidate.csrfToken)}` +
+          (candidate.workspaceId ? `, workspace ${candidate.workspaceId}` : '')
+        )
+        : ['No language server process with --extension_server_port found']
+    };
+    steps.push(parseStep);
+
+    for (const candidate of candidates) {
+      // Stage 3: listening ports
+      const portStep: DiagnosticStep = { title: `Listening ports (PID ${candidate.pid})`, status: 'ok', details: [] };
+      steps.push(portStep);
+      let ports: number[] = [];
+
+      if (this.strategy.findListeningPorts) {
+        try {
+          ports = await this.strategy.findListeningPorts(candidate.pid);
+          portStep.details.push(`Native lookup: ${ports.join(', ') || 'none'}`);
+        } catch (error) {
+          portStep.details.push(`Native lookup failed: ${errorMessage(error)}`);
+        }
+      }
+
+      for (const command of this.strategy.getPortListCommands(candidate.pid)) {
+        if (ports.length > 0) break;
+
+        portStep.details.push(`Command: ${formatCommand(command)}`);
+        try {
+          const stdout = await runCommand(command, { timeoutMs: 3000 });
+          ports = this.strategy.parseListeningPorts(stdout, candidate.pid);
+          portStep.details.push(`Parsed ports: ${ports.join(', ') || 'none'}`);
+        } catch (error) {
+          portStep.details.push(`Command failed: ${errorMessage(error)}`);
+        }
+      }
+
+      if (ports.length === 0) {
+        portStep.status = 'error';
+        continue;
+      }
+
+      // Stage 4: per-port probes
+      const probeStep: DiagnosticStep = { title: `Port probes (PID ${candidate.pid})`, status: 'error', details: [] };
+      steps.push(probeStep);
+
+      const results = await Promise.all(ports.map(port => this.probePort(port, candidate.csrfToken)));
+      for (const result of results) {
+        const port = result.port;
+        probeStep.details.push(
+          `Port ${port}: ${result.ok ? 'OK' : 'failed'}` +
+          (result.statusCode !== undefined ? ` (HTTP ${result.statusCode})` : '') +
+          (result.error ? ` (${result.error})` : '') +
+          ` in ${result.durationMs}ms`
+        );
+
+        if (result.ok && probeStep.status !== 'ok') {
+          probeStep.status = 'ok';
+          instances.push({
+            pid: candidate.pid,
+            extensionPort: candidate.extensionPort,
+            connectPort: port,
+            csrfToken: candidate.csrfToken,
+            parentPid: candidate.parentPid,
+            workspaceId: candidate.workspaceId
+          });
+        }
+      }
+    }
+
+    for (const step of steps) {
+      step.details = step.details.map(line => redactSecrets(line, tokens));
+    }
+
+    return { steps, instances };
+  }
+}
+
+/**
+ * Wait for a delay, returning early if the signal is aborted
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Get a printable message from an unknown error
+ */
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Indent command output for the report, keeping it to a readable size
+ */
+function formatOutput(stdout: string, maxLines = 20): string[] {
+  const lines = stdout.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length === 0) return ['  (empty)'];
+
+  const shown = lines.slice(0, maxLines).map(line => `  ${line}`);
+  if (lines.length > maxLines) {
+    shown.push(`  … ${lines.length - maxLines} more line(s)`);
+  }
+  return shown;
 }
@@ -0,0 +1,121 @@
+/**
+ * Quota Providers
+ * Host-specific details for each Codeium-family IDE whose language server reports quota
+ */
+
+import { validateUserStatus } from './responseValidator';
+import { QuotaProvider, QuotaProviderId, ValidatedUserStatus } from '../types';
+
+const LANGUAGE_SERVER_SERVICE = '/exa.language_server_pb.LanguageServerService';
+
+interface CodeiumFamilyOptions {
+  id: QuotaProviderId;
+  displayName: string;
+  ideName: string;
+  extensionName: string;
+  matchesProcess: (commandLine: string) => boolean;
+}
+
+/**
+ * Provider for hosts that bundle the Codeium language server and its Connect API
+ */
+export class CodeiumFamilyProvider implements QuotaProvider {
+  readonly id: QuotaProviderId;
+  readonly displayName: string;
+  readonly csrfHeader = 'X-Codeium-Csrf-Token';
+  readonly probeEndpoint = `${LANGUAGE_SERVER_SERVICE}/GetUnleashData`;
+  readonly userStatusEndpoint = `${LANGUAGE_SERVER_SERVICE}/GetUserStatus`;
+
+  constructor(private options: CodeiumFamilyOptions) {
+    this.id = options.id;
+    this.displayName = options.displayName;
+  }
+
+  /**
+   * Language server binary name; every Codeium-family host ships the same names
+   */
+  getProcessName(platform: NodeJS.Platform, arch: string): string {
+    if (platform === 'win32') return 'language_server_windows_x64.exe';
+    if (platform === 'darwin') return `language_server_macos${arch === 'arm64' ? '_arm' : ''}`;
+    return 'language_server_linux';
+  }
+
+  /**
+   * Check whether a language server command line belongs to this host
+   */
+  matchesProcess(commandLine: string): boolean {
+    return this.options.matchesProcess(commandLine);
+  }
+
+  /**
+   * GetUserStatus request body identifying the host
+   */
+  buildUserStatusRequest(): object {
+    return {
+      metadata: {
+        ideName: this.options.ideName,
+        extensionName: this.options.extensionName,
+        locale: 'en'
+      }
+    };
+  }
+
+  /**
+   * Validate and normalize a GetUserStatus payload
+   */
+  parseUserStatus(data: unknown, now: Date): ValidatedUserStatus {
+    return validateUserStatus(data, this.userStatusEndpoint, now);
+  }
+}
+
+/**
+ * Check whether a command line runs from a host's install or app data directory
+ */
+function isHostProcess(commandLine: string, host: string): boolean {
+  if (new RegExp(`--app_data_dir[=\\s]+${host}\\b`, 'i').test(commandLine)) {
+    return true;
+  }
+  const lowerCmd = commandLine.toLowerCase();
+  return [`\\${host}\\`, `/${host}/`, `\\${host}.app\\`, `/${host}.app/`].some(part => lowerCmd.includes(part));
+}
+
+export const antigravityProvider = new CodeiumFamilyProvider({
+  id: 'antigravity',
+  displayName: 'Antigravity',
+  ideName: 'antigravity',
+  extensionName: 'antigravity',
+  matchesProcess: commandLine => isHostProcess(commandLine, 'antigravity')
+});
+
+export const windsurfProvider = new CodeiumFamilyProvider({
+  id: 'windsurf',
+  displayName: 'Windsurf',
+  ideName: 'windsurf',
+  extensionName: 'windsurf',
+  matchesProcess: commandLine => isHostProcess(commandLine, 'windsurf')
+});
+
+export const codeiumProvider = new CodeiumFamilyProvider({
+  id: 'codeium',
+  displayName: 'Codeium',
+  ideName: 'vscode',
+  extensionName: 'codeium',
+  // Standalone servers live under the Codeium extension or ~/.codeium, which Windsurf also uses
+  matchesProcess: commandLine =>
+    commandLine.toLowerCase().includes('codeium') &&
+    !isHostProcess(commandLine, 'windsurf') &&
+    !isHostProcess(commandLine, 'antigravity')
+});
+
+export const QUOTA_PROVIDERS: Record<QuotaProviderId, QuotaProvider> = {
+  antigravity: antigravityProvider,
+  windsurf: windsurfProvider,
+  codeium: codeiumProvider
+};
+
+/**
+ * Look up a provider by id, falling back to Antigravity for unknown values
+ */
+export function getProvider(id: string | undefined): QuotaProvider {
+  return id && id in QUOTA_PROVIDERS ? QUOTA_PROVIDERS[id as QuotaProviderId] : antigravityProvider;
+}
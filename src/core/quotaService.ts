@@ -1,6 +1,6 @@
 /**
  * Quota Service
- * Fetches quota data from Antigravity's language server API
+ * Fetches quota data from the selected provider's language server API
  */
 
 import * as https from 'https';
@@ -8,28 +8,72 @@ import {
   QuotaSnapshot,
   ModelQuota,
   PromptCredits,
+  CreditPool,
+  CreditPoolId,
   ServerUserStatusResponse,
-  RawModelConfig
+  Clock,
+  QuotaProvider
 } from '../types';
+import {
+  ConnectionError,
+  InvalidResponseError,
+  RequestTimeoutError,
+  errorForStatus,
+  parseErrorDetail
+} from './errors';
+import { systemClock } from './clock';
+import { antigravityProvider } from './providers';
+import { ResponseRecorder, ResponseReplay } from './recording';
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+const CREDIT_POOL_LABELS: Record<CreditPoolId, string> = {
+  prompt: 'Prompt Credits',
+  flow: 'Flow Credits',
+  flex: 'Flex Credits'
+};
 
 export class QuotaService {
+  private host = '127.0.0.1';
   private port = 0;
   private csrfToken = '';
   private lastSnapshot: QuotaSnapshot | null = null;
+  private recorder: ResponseRecorder | null = null;
+  private replay: ResponseReplay | null = null;
+
+  constructor(
+    private provider: QuotaProvider = antigravityProvider,
+    private clock: Clock = systemClock
+  ) {}
 
   /**
    * Set connection parameters
    */
-  setConnection(port: number, csrfToken: string): void {
+  setConnection(port: number, csrfToken: string, host = '127.0.0.1'): void {
+    this.host = host;
     this.port = port;
     this.csrfToken = csrfToken;
   }
 
+  /**
+   * Record every raw response, or stop recording with null
+   */
+  setRecorder(recorder: ResponseRecorder | null): void {
+    this.recorder = recorder;
+  }
+
+  /**
+   * Serve responses from a recording instead of the network, or go back to the network with null
+   */
+  setReplay(replay: ResponseReplay | null): void {
+    this.replay = replay;
+  }
+
   /**
    * Check if service is configured
    */
   isConfigured(): boolean {
-    return this.port > 0 && this.csrfToken.length > 0;
+    return this.replay !== null || (this.port > 0 && this.csrfToken.length > 0);
   }
 
   /**
@@ -43,34 +87,47 @@ export class QuotaService {
    * Fetch quota data from the API
    */
   async poll(): Promise<ModelQuota[]> {
+    const response = await this.fetchUserStatus();
+
+    this.lastSnapshot = this.parseResponse(response);
+    return this.lastSnapshot.models;
+  }
+
+  /**
+   * Fetch the raw GetUserStatus payload
+   */
+  async fetchUserStatus(): Promise<ServerUserStatusResponse> {
     if (!this.isConfigured()) {
       throw new Error('QuotaService not configured');
     }
 
-    const response = await this.request<ServerUserStatusResponse>(
-      '/exa.language_server_pb.LanguageServerService/GetUserStatus',
-      {
-        metadata: {
-          ideName: 'antigravity',
-          extensionName: 'antigravity',
-          locale: 'en'
-        }
-      }
-    );
+    if (this.replay) {
+      return this.replay.next().response;
+    }
 
-    this.lastSnapshot = this.parseResponse(response);
-    return this.lastSnapshot.models;
+    const endpoint = this.provider.userStatusEndpoint;
+    const response = await this.request<ServerUserStatusResponse>(endpoint, this.provider.buildUserStatusRequest());
+
+    if (this.recorder) {
+      // A recording problem must never break polling
+      await this.recorder
+        .record(endpoint, response, [this.csrfToken])
+        .catch(error => console.warn('[QuotaService] Failed to record response:', error));
+    }
+
+    return response;
   }
 
   /**
-   * Make an HTTPS request to the API
+   * Make an HTTPS request to the API.
+   * Failures reject with a QuotaServiceError subclass describing what went wrong.
    */
   private request<T>(path: string, body: object): Promise<T> {
     return new Promise((resolve, reject) => {
       const data = JSON.stringify(body);
       
       const options: https.RequestOptions = {
-        hostname: '127.0.0.1',
+        hostname: this.host,
         port: this.port,
         path,
         method: 'POST',
@@ -78,28 +135,39 @@ export class QuotaService {
           'Content-Type': 'application/json',
           'Content-Length': Buffer.byteLength(data),
           'Connect-Protocol-Version': '1',
-          'X-Codeium-Csrf-Token': this.csrfToken
+          [this.provider.csrfHeader]: this.csrfToken
         },
         rejectUnauthorized: false,
-        timeout: 10000
+        timeout: REQUEST_TIMEOUT_MS
       };
 
       const req = https.request(options, res => {
         let responseBody = '';
         res.on('data', chunk => (responseBody += chunk));
         res.on('end', () => {
+          const statusCode = res.statusCode;
+          if (statusCode !== undefined && (statusCode < 200 || statusCode >= 300)) {
+            reject(errorForStatus(path, statusCode, parseErrorDetail(responseBody)));
+            return;
+          }
+
           try {
             resolve(JSON.parse(responseBody) as T);
           } catch {
-            reject(new Error('Invalid JSON response'));
+            reject(new InvalidResponseError(path, statusCode));
           }
         });
       });
 
-      req.on('error', reject);
+      let timedOut = false;
+      req.on('error', error => {
+        // destroy() after a timeout also emits an error; the timeout was already reported
+        if (!timedOut) reject(new ConnectionError(path, error));
+      });
       req.on('timeout', () => {
+        timedOut = true;
         req.destroy();
-        reject(new Error('Request timeout'));
+        reject(new RequestTimeoutError(path, REQUEST_TIMEOUT_MS));
       });
 
       req.write(data);
@@ -108,56 +176,71 @@ export class QuotaService {
   }
 
   /**
-   * Parse API response into QuotaSnapshot
+   * Parse API response into QuotaSnapshot.
+   * Fields that had to be defaulted are flagged on the model and listed in `warnings`.
    */
   private parseResponse(data: ServerUserStatusResponse): QuotaSnapshot {
-    const userStatus = data.userStatus;
-    const planInfo = userStatus.planStatus?.planInfo;
-    const availableCredits = userStatus.planStatus?.availablePromptCredits;
+    const now = this.clock.now();
+    const validated = this.provider.parseUserStatus(data, now);
 
-    // Parse prompt credits
-    let promptCredits: PromptCredits | undefined;
-    if (planInfo && availableCredits !== undefined) {
-      const monthly = Number(planInfo.monthlyPromptCredits);
-      const available = Number(availableCredits);
-      
-      if (monthly > 0) {
-        promptCredits = {
-          available,
-          monthly,
-          usedPercentage: ((monthly - available) / monthly) * 100,
-          remainingPercentage: (available / monthly) * 100
-        };
+    // Parse credit pools
+    const creditPools: CreditPool[] = validated.creditPools.map(pool => {
+      const creditPool: CreditPool = { id: pool.id, label: CREDIT_POOL_LABELS[pool.id], available: pool.available };
+      if (pool.monthly) {
+        creditPool.monthly = pool.monthly;
+        creditPool.usedPercentage = ((pool.monthly - pool.available) / pool.monthly) * 100;
+        creditPool.remainingPercentage = (pool.available / pool.monthly) * 100;
       }
+      return creditPool;
+    });
+
+    // Prompt credits keep their own field for the status bar and older consumers
+    let promptCredits: PromptCredits | undefined;
+    const prompt = creditPools.find(pool => pool.id === 'prompt');
+    if (prompt?.monthly) {
+      promptCredits = {
+        available: prompt.available,
+        monthly: prompt.monthly,
+        usedPercentage: prompt.usedPercentage!,
+        remainingPercentage: prompt.remainingPercentage!
+      };
     }
 
     // Parse model quotas
-    const rawModels = userStatus.cascadeModelConfigData?.clientModelConfigs || [];
-    const models: ModelQuota[] = rawModels
-      .filter((m: RawModelConfig) => m.quotaInfo)
-      .map((m: RawModelConfig) => {
-        const resetTime = new Date(m.quotaInfo!.resetTime || Date.now());
-        const now = new Date();
-        const diff = resetTime.getTime() - now.getTime();
-        const remainingFraction = m.quotaInfo!.remainingFraction ?? 1;
-
-        return {
-          label: m.label,
-          modelId: m.modelOrAlias?.model || 'unknown',
-          remainingFraction,
-          remainingPercent: Math.round(remainingFraction * 100),
-          isExhausted: remainingFraction === 0,
-          resetTime,
-          timeUntilReset: diff,
-          timeUntilResetFormatted: this.formatTime(diff)
-        };
-      });
+    const models: ModelQuota[] = validated.models.map(m => {
+      const diff = m.resetTime.getTime() - now.getTime();
+
+      const model: ModelQuota = {
+        label: m.label,
+        modelId: m.modelId,
+        remainingFraction: m.remainingFraction,
+        remainingPercent: Math.round(m.remainingFraction * 100),
+        isExhausted: m.remainingFraction === 0,
+        resetTime: m.resetTime,
+        timeUntilReset: diff,
+        timeUntilResetFormatted: this.formatTime(diff)
+      };
+      if (m.defaultedFields.length > 0) {
+        model.defaultedFields = m.defaultedFields;
+      }
+      if (m.isQuotaUnknown) {
+        model.isQuotaUnknown = true;
+      }
+      return model;
+    });
 
-    return {
-      timestamp: new Date(),
+    const snapshot: QuotaSnapshot = {
+      timestamp: now,
       models,
       promptCredits
     };
+    if (creditPools.length > 0) snapshot.creditPools = creditPools;
+    if (validated.plan) snapshot.plan = validated.plan;
+    if (validated.account) snapshot.account = validated.account;
+    if (validated.issues.length > 0) {
+      snapshot.warnings = validated.issues;
+    }
+    return snapshot;
   }
 
   /**
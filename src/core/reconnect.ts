@@ -0,0 +1,78 @@
+/**
+ * Reconnection helpers
+ * Classifies connection failures and schedules re-detection with exponential backoff
+ */
+
+import { QuotaServiceError } from './errors';
+
+const CONNECTION_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ENOTFOUND',
+  'EPIPE',
+  'ETIMEDOUT'
+]);
+
+const CONNECTION_ERROR_MESSAGES = ['Request timeout', 'socket hang up'];
+
+/**
+ * Check whether an error means the language server is no longer reachable
+ * at the current port, as opposed to a bad response from a live server
+ */
+export function isConnectionFailure(error: unknown): boolean {
+  if (error instanceof QuotaServiceError) {
+    return error.kind === 'connection' || error.kind === 'timeout';
+  }
+  if (!(error instanceof Error)) return false;
+
+  const code = (error as NodeJS.ErrnoException).code;
+  if (code && CONNECTION_ERROR_CODES.has(code)) {
+    return true;
+  }
+
+  return CONNECTION_ERROR_MESSAGES.some(message => error.message.includes(message));
+}
+
+/**
+ * Exponential backoff for reconnect attempts.
+ * The first attempt runs immediately unless `immediateFirstAttempt` is false; it is only
+ * reset once polling succeeds again, so a server that is found but keeps failing cannot
+ * cause a tight retry loop.
+ */
+export class ReconnectBackoff {
+  private attempt = 0;
+
+  constructor(
+    private readonly baseDelayMs = 2000,
+    private readonly maxDelayMs = 60000,
+    private readonly immediateFirstAttempt = true
+  ) {}
+
+  /**
+   * Number of attempts scheduled since the last reset
+   */
+  get attempts(): number {
+    return this.attempt;
+  }
+
+  /**
+   * Get the delay before the next attempt and advance the backoff
+   */
+  nextDelay(): number {
+    const step = this.immediateFirstAttempt ? this.attempt - 1 : this.attempt;
+    const delay = step < 0
+      ? 0
+      : Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** step);
+    this.attempt++;
+    return delay;
+  }
+
+  /**
+   * Start over once the connection is healthy again
+   */
+  reset(): void {
+    this.attempt = 0;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Response Recording
+ * Writes raw GetUserStatus responses to a JSONL file and replays them offline
+ */
+
+import * as fs from 'fs/promises';
+import { systemClock, SimulatedClock } from './clock';
+import { redactSecrets } from './redact';
+import { Clock, RecordedResponse } from '../types';
+
+/**
+ * Appends each raw response as one JSON line, with CSRF tokens redacted
+ */
+export class ResponseRecorder {
+  constructor(
+    private filePath: string,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Append a response to the recording
+   */
+  async record(endpoint: string, response: unknown, secrets: string[] = []): Promise<void> {
+    const line = JSON.stringify({ timestamp: this.clock.now().toISOString(), endpoint, response });
+    await fs.appendFile(this.filePath, redactSecrets(line, secrets) + '\n', 'utf8');
+  }
+}
+
+/**
+ * Parse JSONL recording content, oldest response first.
+ * Lines that are not valid recorded responses are counted and skipped.
+ */
+export function parseRecording(content: string): { entries: RecordedResponse[]; skipped: number } {
+  const entries: RecordedResponse[] = [];
+  let skipped = 0;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+
+    try {
+      const parsed = JSON.parse(line) as { timestamp?: unknown; endpoint?: unknown; response?: unknown };
+      const timestamp = typeof parsed.timestamp === 'string' ? new Date(parsed.timestamp) : null;
+
+      if (!timestamp || isNaN(timestamp.getTime()) || typeof parsed.response !== 'object' || !parsed.response) {
+        skipped++;
+        continue;
+      }
+
+      entries.push({
+        timestamp,
+        endpoint: typeof parsed.endpoint === 'string' ? parsed.endpoint : '',
+        response: parsed.response as RecordedResponse['response']
+      });
+    } catch {
+      skipped++;
+    }
+  }
+
+  entries.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  return { entries, skipped };
+}
+
+/**
+ * Read and parse a recording file
+ */
+export async function loadRecording(filePath: string): Promise<{ entries: RecordedResponse[]; skipped: number }> {
+  return parseRecording(await fs.readFile(filePath, 'utf8'));
+}
+
+/**
+ * Serves recorded responses one at a time, moving the simulated clock to each one's timestamp
+ */
+export class ResponseReplay {
+  private index = 0;
+
+  constructor(
+    private entries: RecordedResponse[],
+    private clock: SimulatedClock
+  ) {}
+
+  /**
+   * Number of responses already served
+   */
+  get position(): number {
+    return this.index;
+  }
+
+  /**
+   * Total number of responses in the recording
+   */
+  get length(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Serve the next response and advance the clock to when it was recorded
+   */
+  next(): RecordedResponse {
+    const entry = this.entries[this.index];
+    if (!entry) {
+      throw new Error(`Replay finished (${this.entries.length} responses)`);
+    }
+
+    this.index++;
+    this.clock.set(entry.timestamp);
+    return entry;
+  }
+}
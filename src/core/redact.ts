@@ -0,0 +1,30 @@
+/**
+ * Redaction helpers
+ * Keep CSRF tokens out of logs, reports and recordings
+ */
+
+const TOKEN_ARG_PATTERN = /(--csrf_token[=\s]+)[^\s"']+/gi;
+
+/**
+ * Show only enough of a token to tell two tokens apart
+ */
+export function redactToken(token: string): string {
+  if (!token) return '(none)';
+  if (token.length <= 8) return '***';
+  return `${token.substring(0, 4)}…(${token.length} chars)`;
+}
+
+/**
+ * Remove known tokens and any `--csrf_token` argument from free text
+ */
+export function redactSecrets(text: string, tokens: string[] = []): string {
+  let result = text.replace(TOKEN_ARG_PATTERN, '$1<redacted>');
+
+  for (const token of tokens) {
+    if (token) {
+      result = result.split(token).join('<redacted>');
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,268 @@
+/**
+ * Response Validator
+ * Checks GetUserStatus payloads at runtime and records every field that had to be defaulted
+ */
+
+import { InvalidResponseError } from './errors';
+import {
+  AccountDetails,
+  CreditPoolId,
+  PlanDetails,
+  ValidatedCreditPool,
+  ValidatedModel,
+  ValidatedUserStatus,
+  ValidationIssue
+} from '../types';
+
+/** Where each credit pool's balance and monthly allowance live in `planStatus` */
+const CREDIT_POOLS: { id: CreditPoolId; available: string; monthly?: string }[] = [
+  { id: 'prompt', available: 'availablePromptCredits', monthly: 'monthlyPromptCredits' },
+  { id: 'flow', available: 'availableFlowCredits', monthly: 'monthlyFlowCredits' },
+  { id: 'flex', available: 'availableFlexCredits' }
+];
+
+/**
+ * Validate a GetUserStatus payload and normalize it.
+ * Throws InvalidResponseError when there is no `userStatus` at all; any other
+ * problem is recorded as an issue and the affected field is defaulted.
+ */
+export function validateUserStatus(data: unknown, endpoint: string, now = new Date()): ValidatedUserStatus {
+  if (!isObject(data) || !isObject(data.userStatus)) {
+    throw new InvalidResponseError(endpoint, undefined, 'Missing "userStatus" in response');
+  }
+
+  const userStatus = data.userStatus;
+  const issues: ValidationIssue[] = [];
+
+  const planStatus = validatePlanStatus(userStatus.planStatus, issues);
+
+  return {
+    creditPools: planStatus ? validateCreditPools(planStatus, issues) : [],
+    plan: validatePlan(planStatus, userStatus.userTier, issues),
+    account: validateAccount(userStatus, issues),
+    models: validateModels(userStatus.cascadeModelConfigData, issues, now),
+    issues
+  };
+}
+
+/**
+ * Check that `planStatus` is an object when present
+ */
+function validatePlanStatus(planStatus: unknown, issues: ValidationIssue[]): Record<string, unknown> | undefined {
+  if (planStatus === undefined) return undefined;
+  if (!isObject(planStatus)) {
+    issues.push({ path: 'planStatus', message: 'Expected an object' });
+    return undefined;
+  }
+  return planStatus;
+}
+
+/**
+ * Read every credit pool that has a balance in the response
+ */
+function validateCreditPools(planStatus: Record<string, unknown>, issues: ValidationIssue[]): ValidatedCreditPool[] {
+  const planInfo = isObject(planStatus.planInfo) ? planStatus.planInfo : {};
+  const pools: ValidatedCreditPool[] = [];
+
+  for (const pool of CREDIT_POOLS) {
+    const availableRaw = planStatus[pool.available];
+    if (availableRaw === undefined) continue;
+
+    const available = toNumber(availableRaw);
+    if (available === null) {
+      issues.push({ path: `planStatus.${pool.available}`, message: 'Expected a number; pool hidden' });
+      continue;
+    }
+
+    const validated: ValidatedCreditPool = { id: pool.id, available };
+    const monthlyRaw = pool.monthly ? planInfo[pool.monthly] : undefined;
+    if (monthlyRaw !== undefined) {
+      const monthly = toNumber(monthlyRaw);
+      if (monthly === null) {
+        issues.push({ path: `planStatus.planInfo.${pool.monthly}`, message: 'Expected a number; allowance ignored' });
+      } else if (monthly > 0) {
+        validated.monthly = monthly;
+      }
+    }
+    pools.push(validated);
+  }
+
+  return pools;
+}
+
+/**
+ * Read the plan name and tier, preferring the human-readable user tier, and the billing cycle
+ */
+function validatePlan(
+  planStatus: Record<string, unknown> | undefined,
+  userTier: unknown,
+  issues: ValidationIssue[]
+): PlanDetails | undefined {
+  const planInfo = planStatus && isObject(planStatus.planInfo) ? planStatus.planInfo : {};
+  const name = optionalString(planInfo.planName, 'planStatus.planInfo.planName', issues);
+  const teamsTier = optionalString(planInfo.teamsTier, 'planStatus.planInfo.teamsTier', issues);
+  const tierName = isObject(userTier) ? optionalString(userTier.name, 'userTier.name', issues) : undefined;
+
+  const tier = tierName || (teamsTier ? formatTier(teamsTier) : undefined);
+  const cycleStart = optionalDate(planStatus?.planStart, 'planStatus.planStart', issues);
+  const cycleEnd = optionalDate(planStatus?.planEnd, 'planStatus.planEnd', issues);
+  if (!name && !tier && !cycleEnd) return undefined;
+
+  const plan: PlanDetails = { name, tier };
+  if (cycleStart) plan.cycleStart = cycleStart;
+  if (cycleEnd) plan.cycleEnd = cycleEnd;
+  return plan;
+}
+
+/**
+ * Read who the quota belongs to
+ */
+function validateAccount(userStatus: Record<string, unknown>, issues: ValidationIssue[]): AccountDetails | undefined {
+  const name = optionalString(userStatus.name, 'name', issues);
+  const email = optionalString(userStatus.email, 'email', issues);
+  return name || email ? { name, email } : undefined;
+}
+
+/**
+ * Normalize every model config that carries quota information
+ */
+function validateModels(configData: unknown, issues: ValidationIssue[], now: Date): ValidatedModel[] {
+  if (configData === undefined) {
+    issues.push({ path: 'cascadeModelConfigData', message: 'Missing; no model quotas available' });
+    return [];
+  }
+
+  const configs = isObject(configData) ? configData.clientModelConfigs : undefined;
+  if (configs === undefined) return [];
+  if (!Array.isArray(configs)) {
+    issues.push({ path: 'cascadeModelConfigData.clientModelConfigs', message: 'Expected an array' });
+    return [];
+  }
+
+  const models: ValidatedModel[] = [];
+
+  configs.forEach((config, index) => {
+    // Models without quotaInfo are simply not metered
+    if (!isObject(config) || !config.quotaInfo) return;
+
+    const path = `clientModelConfigs[${index}]`;
+    const defaultedFields: string[] = [];
+    const modelIssues: Omit<ValidationIssue, 'model'>[] = [];
+    const defaulted = (field: string, message: string): void => {
+      defaultedFields.push(field);
+      modelIssues.push({ path: `${path}.${field}`, message });
+    };
+
+    const model = isObject(config.modelOrAlias) ? config.modelOrAlias.model : undefined;
+    let modelId = 'unknown';
+    if (typeof model === 'string' && model) {
+      modelId = model;
+    } else {
+      defaulted('modelOrAlias.model', 'Missing; using "unknown"');
+    }
+
+    let label = `Model ${index + 1}`;
+    if (typeof config.label === 'string' && config.label) {
+      label = config.label;
+    } else {
+      defaulted('label', `Missing; using "${label}"`);
+    }
+
+    const quotaInfo = isObject(config.quotaInfo) ? config.quotaInfo : {};
+    if (!isObject(config.quotaInfo)) {
+      modelIssues.push({ path: `${path}.quotaInfo`, message: 'Expected an object' });
+    }
+
+    // A quota that had to be guessed is shown as unknown rather than analyzed
+    let isQuotaUnknown = false;
+
+    let resetTime = now;
+    const reset = quotaInfo.resetTime;
+    const parsedReset = typeof reset === 'string' ? new Date(reset) : null;
+    if (reset === undefined) {
+      defaulted('quotaInfo.resetTime', 'Missing; assuming reset now');
+      isQuotaUnknown = true;
+    } else if (!parsedReset || isNaN(parsedReset.getTime())) {
+      defaulted('quotaInfo.resetTime', 'Not a valid date; assuming reset now');
+      isQuotaUnknown = true;
+    } else {
+      resetTime = parsedReset;
+    }
+
+    let remainingFraction = 1;
+    const fraction = quotaInfo.remainingFraction;
+    if (fraction === undefined && !isQuotaUnknown) {
+      // proto3 JSON omits zero values, so an exhausted model only reports its reset time
+      remainingFraction = 0;
+    } else if (fraction === undefined) {
+      defaulted('quotaInfo.remainingFraction', 'Missing; assuming 100% remaining');
+      isQuotaUnknown = true;
+    } else if (typeof fraction !== 'number' || !Number.isFinite(fraction)) {
+      defaulted('quotaInfo.remainingFraction', 'Not a number; assuming 100% remaining');
+      isQuotaUnknown = true;
+    } else if (fraction < 0 || fraction > 1) {
+      remainingFraction = Math.min(1, Math.max(0, fraction));
+      defaulted('quotaInfo.remainingFraction', `Out of range (${fraction}); clamped to ${remainingFraction}`);
+    } else {
+      remainingFraction = fraction;
+    }
+
+    issues.push(...modelIssues.map(issue => ({ ...issue, model: label })));
+    models.push({ label, modelId, remainingFraction, resetTime, defaultedFields, isQuotaUnknown });
+  });
+
+  return models;
+}
+
+/**
+ * Turn enum values like `TEAMS_TIER_PRO_ULTIMATE` into `Pro Ultimate`
+ */
+export function formatTier(tier: string): string {
+  return tier
+    .replace(/^(TEAMS_TIER|USER_TIER|TIER)_/, '')
+    .split('_')
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ');
+}
+
+/**
+ * Read an optional string field, recording an issue if it has another type
+ */
+function optionalString(value: unknown, path: string, issues: ValidationIssue[]): string | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') {
+    issues.push({ path, message: 'Expected a string' });
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Read an optional RFC 3339 timestamp, recording an issue if it does not parse
+ */
+function optionalDate(value: unknown, path: string, issues: ValidationIssue[]): Date | undefined {
+  if (value === undefined || value === '') return undefined;
+  const date = typeof value === 'string' ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) {
+    issues.push({ path, message: 'Expected a timestamp' });
+    return undefined;
+  }
+  return date;
+}
+
+/**
+ * Parse numbers that proto3 JSON may encode as strings (int64)
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -3,20 +3,70 @@
  * Main entry point
  */
 
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { ProcessDetector } from './core/processDetector';
 import { QuotaService } from './core/quotaService';
 import { InsightsService } from './insights/insightsService';
+import { describeRecommendation } from './insights/recommendations';
+import { HistoryStore } from './insights/historyStore';
+import { formatBurnRate } from './insights/burnRate';
 import { StatusBarManager } from './ui/statusBar';
 import { DashboardPanel } from './ui/dashboard/dashboardPanel';
-import { ExtensionConfig, SnapshotWithInsights } from './types';
+import { selectInstance } from './core/instanceMatcher';
+import { resolveManualConnection, parsePort, MANUAL_TOKEN_SECRET_KEY } from './core/manualConnection';
+import { isConnectionFailure, ReconnectBackoff } from './core/reconnect';
+import { DiagnosticsRunner, formatDiagnosticsReport } from './core/diagnostics';
+import { ConnectionCache } from './core/connectionCache';
+import { ApiNotFoundError, AuthError, ServerError } from './core/errors';
+import { SimulatedClock } from './core/clock';
+import { getProvider } from './core/providers';
+import { ModelNamer } from './core/modelNaming';
+import { FakeLanguageServer } from './simulation/fakeLanguageServer';
+import { DEFAULT_SIMULATION_SPEED, getScenario } from './simulation/scenarios';
+import { loadRecording, ResponseRecorder, ResponseReplay } from './core/recording';
+import {
+  DiagnosticStep,
+  ExtensionConfig,
+  ManualConnection,
+  ModelWithInsights,
+  ProcessInfo,
+  QuotaPool,
+  QuotaProvider,
+  SnapshotWithInsights,
+  WindowContext
+} from './types';
 
+const SELECTED_INSTANCE_KEY = 'quotaViewer.selectedInstancePid';
+
+let provider: QuotaProvider;
 let processDetector: ProcessDetector;
 let quotaService: QuotaService;
 let insightsService: InsightsService;
 let statusBarManager: StatusBarManager;
+let connectionCache: ConnectionCache;
+// Shared by every view, so alias changes apply everywhere at once
+const modelNamer = new ModelNamer();
+// Only live data is persisted, never replayed or simulated responses
+let historyStore: HistoryStore | undefined;
 let pollingInterval: NodeJS.Timeout | undefined;
 let isInitialized = false;
+let activeInstance: ProcessInfo | undefined;
+let isReconnecting = false;
+let reconnectTimer: NodeJS.Timeout | undefined;
+const reconnectBackoff = new ReconnectBackoff();
+// 5xx responses pause polling for 1, 2, 4... minutes (up to 15)
+const serverErrorBackoff = new ReconnectBackoff(60000, 15 * 60000, false);
+let serverRetryAt = 0;
+// Set when replaying a recording; replay mode never touches the network or the caches
+let replayClock: SimulatedClock | undefined;
+let replay: ResponseReplay | undefined;
+// Set in simulation mode; the fake server replaces detection and the caches
+let simulationServer: FakeLanguageServer | undefined;
+// Aborted on deactivate so an in-flight detection does not outlive the extension
+let detectionAbort = new AbortController();
+// Credit pools already warned about in this billing cycle, keyed by pool and cycle end
+const creditWarningsShown = new Set<string>();
 
 /**
  * Extension activation
@@ -25,12 +75,35 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   console.log('⚡ Antigravity Quota Viewer activating...');
 
   // Initialize services
-  processDetector = new ProcessDetector();
-  quotaService = new QuotaService();
-  insightsService = new InsightsService();
-  statusBarManager = new StatusBarManager();
+  const config = getConfig();
+  provider = getProvider(config.provider);
+  replayClock = config.debug.replayFile ? new SimulatedClock() : undefined;
+  const scenario = replayClock ? undefined : getScenario(config.simulation.scenario);
+  simulationServer = scenario ? new FakeLanguageServer(scenario, config.simulation.speed, provider) : undefined;
+  detectionAbort = new AbortController();
+  processDetector = new ProcessDetector(provider);
+  quotaService = new QuotaService(provider, replayClock);
+  insightsService = new InsightsService(replayClock, config);
+  modelNamer.setAliases(config.modelAliases);
+  statusBarManager = new StatusBarManager(provider.displayName, modelNamer);
+  connectionCache = new ConnectionCache(context.workspaceState, context.globalState, context.secrets, provider.id);
+  console.log(`⚡ Quota provider: ${provider.displayName}`);
 
   context.subscriptions.push(statusBarManager);
+  updateRecorder();
+  if (!replayClock && !simulationServer) {
+    showCachedSnapshot();
+    const historyFile = provider.id === 'antigravity' ? 'quota-history.jsonl' : `quota-history-${provider.id}.jsonl`;
+    historyStore = new HistoryStore(path.join(context.globalStorageUri.fsPath, historyFile));
+    historyStore.load()
+      .then(entries => {
+        console.log(`⚡ Loaded ${entries.length} history entries`);
+        insightsService.restoreHistory(entries);
+      })
+      .catch(error => console.warn('Failed to load quota history:', error));
+  } else {
+    historyStore = undefined;
+  }
 
   // Register commands
   context.subscriptions.push(
@@ -42,7 +115,12 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   context.subscriptions.push(
     vscode.commands.registerCommand('quotaViewer.refresh', async () => {
       vscode.window.showInformationMessage('Refreshing quota data...');
-      await pollAndUpdate(context);
+      serverRetryAt = 0;
+      if (isReconnecting) {
+        await reconnectNow(context);
+      } else {
+        await pollAndUpdate(context);
+      }
     })
   );
 
@@ -52,11 +130,64 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('quotaViewer.selectInstance', async () => {
+      await pickInstance(context);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('quotaViewer.connectManually', async () => {
+      await connectManually(context);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('quotaViewer.clearManualConnection', async () => {
+      await clearManualConnection(context);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('quotaViewer.runDiagnostics', async () => {
+      await runDiagnostics(context);
+    })
+  );
+
   // Handle configuration changes
   context.subscriptions.push(
     vscode.workspace.onDidChangeConfiguration(e => {
       if (e.affectsConfiguration('quotaViewer')) {
+        if (e.affectsConfiguration('quotaViewer.provider') || e.affectsConfiguration('quotaViewer.simulation')) {
+          vscode.window.showInformationMessage(
+            'Quota Viewer: The quota provider and simulation settings apply after a reload.',
+            'Reload Window'
+          ).then(action => {
+            if (action === 'Reload Window') {
+              vscode.commands.executeCommand('workbench.action.reloadWindow');
+            }
+          });
+        }
+        updateRecorder();
         const config = getConfig();
+        insightsService.setModelEquivalents(config.modelEquivalents);
+        insightsService.setBudgets(config.budgets);
+        if (e.affectsConfiguration('quotaViewer.modelAliases')) {
+          modelNamer.setAliases(config.modelAliases);
+          const snapshot = statusBarManager.getSnapshot();
+          if (snapshot) {
+            statusBarManager.update(snapshot, config);
+            DashboardPanel.currentPanel?.update(snapshot);
+          }
+        }
+        // Budgets and equivalents change the analysis itself, so re-analyze the last poll
+        const lastSnapshot = quotaService.getSnapshot();
+        if (lastSnapshot && ['budgets', 'modelEquivalents', 'statusBar.showPacing']
+          .some(key => e.affectsConfiguration(`quotaViewer.${key}`))) {
+          const enrichedSnapshot = insightsService.analyze(lastSnapshot);
+          statusBarManager.update(enrichedSnapshot, config);
+          DashboardPanel.currentPanel?.update(enrichedSnapshot);
+        }
         if (config.enabled) {
           startPolling(config.pollingInterval * 1000, context);
         } else {
@@ -77,45 +208,182 @@ function getConfig(): ExtensionConfig {
   const config = vscode.workspace.getConfiguration('quotaViewer');
   return {
     enabled: config.get('enabled', true),
+    provider: config.get('provider', 'antigravity'),
     pollingInterval: config.get('pollingInterval', 120),
     pinnedModels: config.get('pinnedModels', []),
-    alertThreshold: config.get('alertThreshold', 20)
+    alertThreshold: config.get('alertThreshold', 20),
+    modelAliases: config.get('modelAliases', {}),
+    modelEquivalents: config.get('modelEquivalents', []),
+    budgets: config.get('budgets', {}),
+    statusBar: {
+      showPacing: config.get('statusBar.showPacing', false)
+    },
+    connection: {
+      host: config.get('connection.host', '127.0.0.1'),
+      port: config.get('connection.port', 0)
+    },
+    debug: {
+      recordFile: config.get('debug.recordFile', ''),
+      replayFile: config.get('debug.replayFile', '')
+    },
+    simulation: {
+      scenario: config.get('simulation.scenario', 'off'),
+      speed: config.get('simulation.speed', DEFAULT_SIMULATION_SPEED)
+    }
   };
 }
 
+/**
+ * Resolve a file setting, treating relative paths as relative to the first workspace folder
+ */
+function resolveSettingPath(file: string): string {
+  const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  return path.isAbsolute(file) || !root ? file : path.join(root, file);
+}
+
+/**
+ * Start or stop recording raw responses according to the settings
+ */
+function updateRecorder(): void {
+  const file = getConfig().debug.recordFile;
+  quotaService.setRecorder(file && !replayClock ? new ResponseRecorder(resolveSettingPath(file)) : null);
+}
+
+/**
+ * Serve responses from the configured recording instead of the language server
+ */
+async function startReplay(context: vscode.ExtensionContext, clock: SimulatedClock): Promise<void> {
+  const file = resolveSettingPath(getConfig().debug.replayFile);
+  const { entries, skipped } = await loadRecording(file);
+
+  if (entries.length === 0) {
+    statusBarManager.showError(`No responses in ${path.basename(file)}`);
+    return;
+  }
+
+  // Start the session, and its burn-rate history, at the first recorded response
+  clock.set(entries[0].timestamp);
+  insightsService = new InsightsService(clock, getConfig());
+  replay = new ResponseReplay(entries, clock);
+  quotaService.setReplay(replay);
+
+  console.log(`⚡ Replaying ${entries.length} response(s) from ${file} (${skipped} skipped)`);
+  vscode.window.showInformationMessage(
+    `Quota Viewer: Replaying ${entries.length} recorded response(s) from ${path.basename(file)}. ` +
+    'Each poll or refresh advances one response.'
+  );
+
+  await pollAndUpdate(context);
+  startMonitoring(context);
+}
+
+/**
+ * Start the fake language server and poll it instead of a real one
+ */
+async function startSimulation(context: vscode.ExtensionContext, server: FakeLanguageServer): Promise<void> {
+  const port = await server.start();
+
+  // Go through the same probe as a detected server
+  if (!await processDetector.testPort(port, server.csrfToken)) {
+    statusBarManager.showError('Simulation server did not respond');
+    return;
+  }
+
+  quotaService.setConnection(port, server.csrfToken);
+
+  console.log(`⚡ Simulating "${server.scenario.label}" on port ${port}`);
+  vscode.window.showInformationMessage(
+    `Quota Viewer: Simulation mode (${server.scenario.label}). ${server.scenario.description}. ` +
+    'Set quotaViewer.simulation.scenario to "off" and reload to use the real language server.'
+  );
+
+  await pollAndUpdate(context);
+  startMonitoring(context);
+}
+
 /**
  * Initialize the extension
  */
 async function initialize(context: vscode.ExtensionContext): Promise<void> {
   if (isInitialized) return;
 
-  const config = getConfig();
-  statusBarManager.showDetecting();
+  // Keep cached data visible while detecting
+  if (!statusBarManager.getSnapshot()) {
+    statusBarManager.showDetecting();
+  }
 
   try {
-    const processInfo = await processDetector.detect();
+    if (replayClock) {
+      await startReplay(context, replayClock);
+      return;
+    }
 
-    if (processInfo) {
-      console.log(`⚡ Antigravity detected on port ${processInfo.connectPort}`);
-      quotaService.setConnection(processInfo.connectPort, processInfo.csrfToken);
+    if (simulationServer) {
+      await startSimulation(context, simulationServer);
+      return;
+    }
 
-      // Initial poll
-      await pollAndUpdate(context);
+    // A manual override skips auto-detection entirely when it answers
+    const manual = await getManualConnection(context);
+    if (manual) {
+      if (await processDetector.testPort(manual.port, manual.csrfToken, manual.host)) {
+        connectToManual(manual);
+        await pollAndUpdate(context);
+        startMonitoring(context);
+        return;
+      }
 
-      // Start polling if enabled
-      if (config.enabled) {
-        startPolling(config.pollingInterval * 1000, context);
+      console.warn(`⚡ Manual connection ${manual.host}:${manual.port} (${manual.source}) did not respond`);
+      vscode.window.showWarningMessage(
+        `Quota Viewer: Manual connection ${manual.host}:${manual.port} did not respond. Falling back to auto-detection.`,
+        'Connect Manually'
+      ).then(action => {
+        if (action === 'Connect Manually') {
+          vscode.commands.executeCommand('quotaViewer.connectManually');
+        }
+      });
+    }
+
+    // After a window reload the last working connection usually still answers
+    const cached = await connectionCache.load();
+    if (cached) {
+      if (await processDetector.testPort(cached.connectPort, cached.csrfToken)) {
+        console.log(`⚡ Reusing cached connection on port ${cached.connectPort} (PID ${cached.pid})`);
+        connectTo(cached);
+        await pollAndUpdate(context);
+        startMonitoring(context);
+        return;
       }
+      // The server restarted; its port and token are gone for good
+      console.log(`⚡ Cached connection on port ${cached.connectPort} no longer answers`);
+      connectionCache.clear().catch(error => console.warn('Failed to clear cached connection:', error));
+    }
+
+    const instances = await processDetector.detect(3, detectionAbort.signal);
+    if (detectionAbort.signal.aborted) return;
 
-      isInitialized = true;
+    const processInfo = chooseInstance(context, instances);
+
+    if (processInfo) {
+      connectTo(processInfo);
+
+      // Initial poll
+      await pollAndUpdate(context);
+      startMonitoring(context);
     } else {
-      statusBarManager.showError('Antigravity not found');
+      statusBarManager.showError(`${provider.displayName} not found`);
       vscode.window.showWarningMessage(
-        'Quota Viewer: Could not detect Antigravity process. Is it running?',
-        'Retry'
+        `Quota Viewer: Could not detect ${provider.displayName} process. Is it running?`,
+        'Retry',
+        'Connect Manually',
+        'Run Diagnostics'
       ).then(action => {
         if (action === 'Retry') {
           initialize(context);
+        } else if (action === 'Connect Manually') {
+          vscode.commands.executeCommand('quotaViewer.connectManually');
+        } else if (action === 'Run Diagnostics') {
+          vscode.commands.executeCommand('quotaViewer.runDiagnostics');
         }
       });
     }
@@ -126,6 +394,221 @@ async function initialize(context: vscode.ExtensionContext): Promise<void> {
   }
 }
 
+/**
+ * Get the identity of the current window for instance matching
+ */
+function getWindowContext(): WindowContext {
+  return {
+    hostPid: process.pid,
+    workspaceUris: (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.toString())
+  };
+}
+
+/**
+ * Choose which detected language server to connect to
+ */
+function chooseInstance(context: vscode.ExtensionContext, instances: ProcessInfo[]): ProcessInfo | null {
+  const match = selectInstance(instances, getWindowContext());
+
+  if (match.instance) {
+    console.log(`⚡ Selected instance PID ${match.instance.pid} (${match.reason})`);
+    return match.instance;
+  }
+
+  if (match.reason === 'none') {
+    return null;
+  }
+
+  // Ambiguous: reuse the choice the user made for this workspace if it is still running
+  const rememberedPid = context.workspaceState.get<number>(SELECTED_INSTANCE_KEY);
+  const remembered = instances.find(instance => instance.pid === rememberedPid);
+  if (remembered) {
+    return remembered;
+  }
+
+  vscode.window.showInformationMessage(
+    `Quota Viewer: Found ${instances.length} ${provider.displayName} instances and could not tell which one belongs to this window.`,
+    'Select Instance'
+  ).then(action => {
+    if (action === 'Select Instance') {
+      vscode.commands.executeCommand('quotaViewer.selectInstance');
+    }
+  });
+
+  return instances[0];
+}
+
+/**
+ * Point the quota service at a language server instance
+ */
+function connectTo(instance: ProcessInfo): void {
+  console.log(`⚡ ${provider.displayName} detected on port ${instance.connectPort} (PID ${instance.pid})`);
+  cancelReconnect();
+  activeInstance = instance;
+  quotaService.setConnection(instance.connectPort, instance.csrfToken);
+  connectionCache.save(instance).catch(error => console.warn('Failed to cache connection:', error));
+}
+
+/**
+ * Show the previous session's snapshot until the first poll completes
+ */
+function showCachedSnapshot(): void {
+  const cached = connectionCache.loadSnapshot();
+  if (!cached) return;
+
+  // Analyzed separately so stale data does not skew this session's burn rate
+  const config = getConfig();
+  statusBarManager.showCached(new InsightsService(undefined, config).analyze(cached), config);
+}
+
+/**
+ * Let the user pick a language server instance via QuickPick
+ */
+async function pickInstance(context: vscode.ExtensionContext): Promise<void> {
+  const instances = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: `Quota Viewer: Detecting ${provider.displayName} instances...` },
+    () => processDetector.detect(3, detectionAbort.signal)
+  );
+
+  if (instances.length === 0) {
+    vscode.window.showWarningMessage(`Quota Viewer: Could not detect ${provider.displayName} process. Is it running?`);
+    return;
+  }
+
+  const items = instances.map(instance => ({
+    label: `$(server-process) PID ${instance.pid}`,
+    description: `Port ${instance.connectPort}${instance.pid === activeInstance?.pid ? ' (current)' : ''}`,
+    detail: instance.workspaceId ? `Workspace: ${instance.workspaceId}` : 'No workspace information',
+    instance
+  }));
+
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: `Select the ${provider.displayName} language server for this window`,
+    title: `⚡ ${provider.displayName} Instances`
+  });
+
+  if (!picked) return;
+
+  await context.workspaceState.update(SELECTED_INSTANCE_KEY, picked.instance.pid);
+  connectTo(picked.instance);
+  await pollAndUpdate(context);
+  startMonitoring(context);
+}
+
+/**
+ * Start periodic polling once a connection is established
+ */
+function startMonitoring(context: vscode.ExtensionContext): void {
+  if (isInitialized) return;
+
+  const config = getConfig();
+  if (config.enabled) {
+    startPolling(config.pollingInterval * 1000, context);
+  }
+
+  isInitialized = true;
+}
+
+/**
+ * Resolve the manual connection override, if configured
+ */
+async function getManualConnection(context: vscode.ExtensionContext): Promise<ManualConnection | null> {
+  const storedToken = await context.secrets.get(MANUAL_TOKEN_SECRET_KEY);
+  return resolveManualConnection(getConfig().connection, storedToken);
+}
+
+/**
+ * Point the quota service at a manually configured endpoint
+ */
+function connectToManual(manual: ManualConnection): void {
+  console.log(`⚡ Using manual connection ${manual.host}:${manual.port} (${manual.source})`);
+  cancelReconnect();
+  activeInstance = undefined;
+  quotaService.setConnection(manual.port, manual.csrfToken, manual.host);
+}
+
+/**
+ * Prompt for host, port and CSRF token, validate them and save the override
+ */
+async function connectManually(context: vscode.ExtensionContext): Promise<void> {
+  const current = getConfig().connection;
+
+  const host = await vscode.window.showInputBox({
+    title: 'Quota Viewer: Connect Manually (1/3)',
+    prompt: 'Language server host',
+    value: current.host,
+    ignoreFocusOut: true,
+    validateInput: value => (value.trim() ? undefined : 'Host is required')
+  });
+  if (host === undefined) return;
+
+  const portInput = await vscode.window.showInputBox({
+    title: 'Quota Viewer: Connect Manually (2/3)',
+    prompt: 'Language server HTTPS port',
+    value: current.port > 0 ? String(current.port) : '',
+    ignoreFocusOut: true,
+    validateInput: value => (parsePort(value) ? undefined : 'Enter a port between 1 and 65535')
+  });
+  if (portInput === undefined) return;
+
+  const csrfToken = await vscode.window.showInputBox({
+    title: 'Quota Viewer: Connect Manually (3/3)',
+    prompt: 'CSRF token (value of --csrf_token)',
+    password: true,
+    ignoreFocusOut: true,
+    validateInput: value => (value.trim() ? undefined : 'Token is required')
+  });
+  if (csrfToken === undefined) return;
+
+  const manual: ManualConnection = {
+    host: host.trim(),
+    port: parsePort(portInput)!,
+    csrfToken: csrfToken.trim(),
+    source: 'settings'
+  };
+
+  const ok = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: `Quota Viewer: Testing ${manual.host}:${manual.port}...` },
+    () => processDetector.testPort(manual.port, manual.csrfToken, manual.host)
+  );
+
+  if (!ok) {
+    const action = await vscode.window.showErrorMessage(
+      `Quota Viewer: ${manual.host}:${manual.port} did not accept the token. Nothing was saved.`,
+      'Try Again'
+    );
+    if (action === 'Try Again') {
+      await connectManually(context);
+    }
+    return;
+  }
+
+  await context.secrets.store(MANUAL_TOKEN_SECRET_KEY, manual.csrfToken);
+  const config = vscode.workspace.getConfiguration('quotaViewer');
+  await config.update('connection.host', manual.host, vscode.ConfigurationTarget.Global);
+  await config.update('connection.port', manual.port, vscode.ConfigurationTarget.Global);
+
+  connectToManual(manual);
+  await pollAndUpdate(context);
+  startMonitoring(context);
+  vscode.window.showInformationMessage(`Quota Viewer: Connected to ${manual.host}:${manual.port}`);
+}
+
+/**
+ * Remove the manual override and go back to auto-detection
+ */
+async function clearManualConnection(context: vscode.ExtensionContext): Promise<void> {
+  await context.secrets.delete(MANUAL_TOKEN_SECRET_KEY);
+  const config = vscode.workspace.getConfiguration('quotaViewer');
+  await config.update('connection.host', undefined, vscode.ConfigurationTarget.Global);
+  await config.update('connection.port', undefined, vscode.ConfigurationTarget.Global);
+
+  stopPolling();
+  isInitialized = false;
+  quotaService.setConnection(0, '');
+  await initialize(context);
+}
+
 /**
  * Poll for quota data and update UI
  */
@@ -135,13 +618,32 @@ async function pollAndUpdate(context: vscode.ExtensionContext): Promise<void> {
     return;
   }
 
+  // The reconnect loop owns the connection until it finds the server again
+  if (isReconnecting) return;
+
+  // Skip scheduled polls while backing off from server errors
+  if (Date.now() < serverRetryAt) return;
+
+  // A finished replay keeps showing its last response
+  if (replay && replay.position >= replay.length) return;
+
   statusBarManager.showFetching();
 
   try {
     await quotaService.poll();
+    reconnectBackoff.reset();
+    serverErrorBackoff.reset();
+    serverRetryAt = 0;
     const snapshot = quotaService.getSnapshot();
 
     if (snapshot) {
+      if (snapshot.warnings) {
+        console.warn(`⚡ Partial quota data (${snapshot.warnings.length} issue(s)):`, snapshot.warnings);
+      }
+      if (!replayClock && !simulationServer) {
+        connectionCache.saveSnapshot(snapshot).catch(error => console.warn('Failed to cache snapshot:', error));
+      }
+      historyStore?.append(snapshot).catch(error => console.warn('Failed to save quota history:', error));
       const enrichedSnapshot = insightsService.analyze(snapshot);
       const config = getConfig();
       
@@ -154,16 +656,149 @@ async function pollAndUpdate(context: vscode.ExtensionContext): Promise<void> {
 
       // Check for warnings
       checkForWarnings(enrichedSnapshot, config);
+
+      if (replay && replay.position === replay.length) {
+        vscode.window.showInformationMessage(
+          `Quota Viewer: Replay finished. Showing the last of ${replay.length} recorded response(s).`
+        );
+      }
     } else {
       statusBarManager.showError('No data received');
     }
   } catch (error: unknown) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
     console.error('Poll failed:', error);
-    statusBarManager.showError(message);
+    handlePollError(context, error);
   }
 }
 
+/**
+ * React to a failed poll according to the kind of failure
+ */
+function handlePollError(context: vscode.ExtensionContext, error: unknown): void {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+
+  // A rejected token means the server restarted or we are talking to the wrong one
+  if (error instanceof AuthError || isConnectionFailure(error)) {
+    beginReconnect(context, message);
+    return;
+  }
+
+  if (error instanceof ServerError) {
+    const delay = serverErrorBackoff.nextDelay();
+    serverRetryAt = Date.now() + delay;
+    statusBarManager.showServerError(error.statusCode, delay);
+    DashboardPanel.currentPanel?.showWarning(`${message}. Showing the last data; retrying in ${Math.round(delay / 1000)}s.`);
+    return;
+  }
+
+  if (error instanceof ApiNotFoundError) {
+    statusBarManager.showApiChanged(error.endpoint);
+    DashboardPanel.currentPanel?.showError(
+      `${provider.displayName} API changed`,
+      `The language server no longer answers ${error.endpoint}. Check for a Quota Viewer update.`
+    );
+    return;
+  }
+
+  statusBarManager.showError(message);
+}
+
+/**
+ * Start re-detecting the language server after a connection failure
+ */
+function beginReconnect(context: vscode.ExtensionContext, reason: string): void {
+  if (isReconnecting) return;
+
+  console.log(`⚡ Connection lost (${reason}), reconnecting...`);
+  isReconnecting = true;
+  scheduleReconnect(context, reason);
+}
+
+/**
+ * Schedule the next reconnect attempt according to the backoff
+ */
+function scheduleReconnect(context: vscode.ExtensionContext, reason: string): void {
+  const delay = reconnectBackoff.nextDelay();
+
+  if (delay === 0) {
+    void attemptReconnect(context, reason);
+    return;
+  }
+
+  statusBarManager.showReconnecting(reconnectBackoff.attempts, reason, delay);
+  reconnectTimer = setTimeout(() => attemptReconnect(context, reason), delay);
+}
+
+/**
+ * Try to find the language server again, rescheduling on failure
+ */
+async function attemptReconnect(context: vscode.ExtensionContext, reason: string): Promise<void> {
+  reconnectTimer = undefined;
+  statusBarManager.showReconnecting(reconnectBackoff.attempts, reason);
+
+  try {
+    if (await rediscoverConnection(context)) {
+      console.log('⚡ Reconnected to language server');
+      await pollAndUpdate(context);
+      return;
+    }
+  } catch (error) {
+    console.error('Reconnect attempt failed:', error);
+  }
+
+  // The user may have connected some other way while we were detecting
+  if (isReconnecting) {
+    scheduleReconnect(context, reason);
+  }
+}
+
+/**
+ * Skip the pending backoff delay and try to reconnect immediately
+ */
+async function reconnectNow(context: vscode.ExtensionContext): Promise<void> {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = undefined;
+    await attemptReconnect(context, 'Manual retry');
+  }
+}
+
+/**
+ * Re-run connection discovery and swap the quota service connection in place
+ */
+async function rediscoverConnection(context: vscode.ExtensionContext): Promise<boolean> {
+  const manual = await getManualConnection(context);
+  if (manual && await processDetector.testPort(manual.port, manual.csrfToken, manual.host)) {
+    connectToManual(manual);
+    return true;
+  }
+
+  const instances = await processDetector.detect(1, detectionAbort.signal);
+
+  // After a restart the PID changes, but the workspace the server belongs to does not
+  const previousWorkspace = activeInstance?.workspaceId;
+  const sameWorkspace = previousWorkspace
+    ? instances.filter(instance => instance.workspaceId === previousWorkspace)
+    : [];
+
+  const processInfo = sameWorkspace.length === 1 ? sameWorkspace[0] : chooseInstance(context, instances);
+  if (!processInfo) return false;
+
+  connectTo(processInfo);
+  return true;
+}
+
+/**
+ * Stop any pending reconnect attempt
+ */
+function cancelReconnect(): void {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = undefined;
+  }
+  isReconnecting = false;
+}
+
 /**
  * Start polling interval
  */
@@ -188,11 +823,69 @@ function stopPolling(): void {
   }
 }
 
+/**
+ * Run detection diagnostics and open the report in an editor
+ */
+async function runDiagnostics(context: vscode.ExtensionContext): Promise<void> {
+  const report = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: 'Quota Viewer: Running diagnostics...' },
+    async () => new DiagnosticsRunner(processDetector, provider).run(await getDiagnosticContext(context))
+  );
+
+  const markdown = formatDiagnosticsReport(report);
+  const document = await vscode.workspace.openTextDocument({ content: markdown, language: 'markdown' });
+  await vscode.window.showTextDocument(document, { preview: false });
+
+  const action = await vscode.window.showInformationMessage(
+    'Quota Viewer: Diagnostics report ready (CSRF tokens are redacted).',
+    'Copy to Clipboard'
+  );
+  if (action === 'Copy to Clipboard') {
+    await vscode.env.clipboard.writeText(markdown);
+  }
+}
+
+/**
+ * Describe the extension's own state for the diagnostics report
+ */
+async function getDiagnosticContext(context: vscode.ExtensionContext): Promise<DiagnosticStep[]> {
+  const config = getConfig();
+  const manual = await getManualConnection(context);
+
+  let connection: string;
+  if (isReconnecting) {
+    connection = `Reconnecting (attempt ${reconnectBackoff.attempts})`;
+  } else if (simulationServer) {
+    connection = `Simulation (${simulationServer.scenario.label}) on port ${simulationServer.port}`;
+  } else if (activeInstance) {
+    connection = `PID ${activeInstance.pid} on port ${activeInstance.connectPort}`;
+  } else if (quotaService.isConfigured()) {
+    connection = 'Manual connection';
+  } else {
+    connection = 'Not connected';
+  }
+
+  return [
+    {
+      title: 'Extension',
+      status: 'ok',
+      details: [
+        `Quota Viewer: ${context.extension.packageJSON.version}`,
+        `Host: ${vscode.env.appName} ${vscode.version}`,
+        `Provider: ${provider.displayName}${config.provider !== provider.id ? ` (setting: ${config.provider}, reload pending)` : ''}`,
+        `Polling: ${config.enabled ? `every ${config.pollingInterval}s` : 'disabled'}`,
+        `Manual override: ${manual ? `${manual.host}:${manual.port} (${manual.source})` : 'none'}`,
+        `Current connection: ${connection}`
+      ]
+    }
+  ];
+}
+
 /**
  * Show the dashboard
  */
 async function showDashboard(context: vscode.ExtensionContext): Promise<void> {
-  const panel = DashboardPanel.createOrShow(context.extensionUri);
+  const panel = DashboardPanel.createOrShow(context.extensionUri, modelNamer);
   panel.showLoading();
 
   const snapshot = quotaService.getSnapshot();
@@ -231,17 +924,42 @@ function showQuickStatus(): void {
     {
       label: `📊 Overall Health: ${enrichedSnapshot.overallHealth}% (${enrichedSnapshot.healthLabel})`,
       description: `Session usage: ${enrichedSnapshot.totalSessionUsage}%`,
-      detail: ''
+      detail: [
+        enrichedSnapshot.account?.email || enrichedSnapshot.account?.name,
+        enrichedSnapshot.plan?.name || enrichedSnapshot.plan?.tier
+      ].filter(Boolean).join(' · ')
     },
+    ...(enrichedSnapshot.alternatives ?? []).slice(0, 1).map(alternative => ({
+      label: `💡 Best alternative: ${modelNamer.name(alternative, 'long')}`,
+      description: describeRecommendation(alternative)
+    })),
     { label: '', kind: vscode.QuickPickItemKind.Separator },
     ...enrichedSnapshot.modelsWithInsights.map(m => ({
-      label: `${m.insights.isActive ? '▶ ' : ''}${m.label}`,
-      description: `${m.remainingPercent}% remaining`,
-      detail: `Reset: ${m.timeUntilResetFormatted} | Burn: ${m.insights.burnRateLabel} | ETA: ${m.insights.predictedExhaustionLabel}`
+      label: `${m.insights.isActive ? '▶ ' : ''}${modelNamer.name(m, 'long')}`,
+      description: m.isQuotaUnknown ? 'Quota unknown' : `${m.remainingPercent}% remaining`,
+      detail: m.isQuotaUnknown ? 'Not reported by the language server' : [
+        `Reset: ${m.timeUntilResetFormatted}`,
+        `Burn: ${m.insights.burnRateLabel}`,
+        `ETA: ${m.insights.predictedExhaustionLabel}`,
+        formatResetOutlook(m)
+      ].filter(Boolean).join(' | ')
     }))
   ];
 
-  if (enrichedSnapshot.promptCredits) {
+  if (enrichedSnapshot.creditPools?.length) {
+    items.push(
+      { label: '', kind: vscode.QuickPickItemKind.Separator },
+      ...enrichedSnapshot.creditPools.map(pool => ({
+        label: `💳 ${pool.label}`,
+        description: pool.monthly
+          ? `${pool.available.toLocaleString()} / ${pool.monthly.toLocaleString()}`
+          : pool.available.toLocaleString(),
+        detail: pool.remainingPercentage !== undefined
+          ? `${Math.round(pool.remainingPercentage)}% remaining`
+          : 'No monthly allowance'
+      }))
+    );
+  } else if (enrichedSnapshot.promptCredits) {
     items.push(
       { label: '', kind: vscode.QuickPickItemKind.Separator },
       {
@@ -262,14 +980,26 @@ function showQuickStatus(): void {
  * Check for low quota warnings
  */
 function checkForWarnings(snapshot: SnapshotWithInsights, config: ExtensionConfig): void {
-  const lowModels = snapshot.modelsWithInsights.filter(
-    m => m.remainingPercent > 0 && m.remainingPercent <= config.alertThreshold
+  checkForAnomalies(snapshot);
+
+  // One warning per pool, so models sharing a quota do not repeat it
+  const lowPools = snapshot.pools.filter(
+    pool => pool.remainingPercent > 0 && pool.remainingPercent <= config.alertThreshold
   );
 
-  for (const model of lowModels) {
-    if (model.insights.isActive) {
+  for (const pool of lowPools) {
+    if (pool.isActive) {
+      const quota = pool.modelIds.length > 1 ? 'shared quota' : 'quota';
+      const alternative = snapshot.alternatives?.[0];
+      const suggestion = alternative
+        ? ` Switch to ${modelNamer.name(alternative, 'medium')} (${describeRecommendation(alternative)}).`
+        : '';
+      // Go by the fastest plausible burn, so the warning errs on the early side
+      const eta = pool.exhaustionRange
+        ? `may run out in ${pool.exhaustionRange.earliestLabel}`
+        : `ETA: ${pool.predictedExhaustionLabel}`;
       vscode.window.showWarningMessage(
-        `⚠️ ${model.label} quota is low: ${model.remainingPercent}% remaining (ETA: ${model.insights.predictedExhaustionLabel})`,
+        `⚠️ ${formatPoolName(pool, snapshot)} ${quota} is low: ${pool.remainingPercent}% remaining (${eta}).${suggestion}`,
         'Open Dashboard'
       ).then(action => {
         if (action === 'Open Dashboard') {
@@ -279,12 +1009,86 @@ function checkForWarnings(snapshot: SnapshotWithInsights, config: ExtensionConfi
       break; // Only show one warning at a time
     }
   }
+
+  checkForCreditWarnings(snapshot);
+}
+
+/**
+ * Alert on sudden drops right away, without waiting for the burn rate or the threshold.
+ * Models sharing a quota drop together, so each pool is reported once.
+ */
+function checkForAnomalies(snapshot: SnapshotWithInsights): void {
+  for (const pool of snapshot.pools) {
+    const anomaly = snapshot.modelsWithInsights
+      .find(m => pool.modelIds.includes(m.modelId) && m.insights.anomaly)?.insights.anomaly;
+    if (!anomaly) continue;
+
+    const minutes = Math.max(1, Math.round(anomaly.intervalMs / 60000));
+    vscode.window.showWarningMessage(
+      `🚨 ${formatPoolName(pool, snapshot)} dropped ${anomaly.drop}% in ${minutes}m (usually ${anomaly.typicalDrop}% per poll). ` +
+        'Something may be consuming quota unexpectedly.',
+      'Open Dashboard'
+    ).then(action => {
+      if (action === 'Open Dashboard') {
+        vscode.commands.executeCommand('quotaViewer.showDashboard');
+      }
+    });
+  }
+}
+
+/**
+ * Warn once per billing cycle when a credit pool is projected to run out before the cycle ends
+ */
+function checkForCreditWarnings(snapshot: SnapshotWithInsights): void {
+  for (const forecast of snapshot.creditForecasts ?? []) {
+    if (!forecast.runsOutAt) continue;
+
+    const key = `${forecast.poolId}:${forecast.cycleEnd.getTime()}`;
+    if (creditWarningsShown.has(key)) continue;
+    creditWarningsShown.add(key);
+
+    vscode.window.showWarningMessage(
+      `💳 ${forecast.label} are projected to run out on ${forecast.runsOutAt.toLocaleDateString()}, ` +
+        `before the billing cycle ends on ${forecast.cycleEnd.toLocaleDateString()} ` +
+        `(~${Math.round(forecast.creditsPerDay ?? 0).toLocaleString()}/day)`,
+      'Open Dashboard'
+    ).then(action => {
+      if (action === 'Open Dashboard') {
+        vscode.commands.executeCommand('quotaViewer.showDashboard');
+      }
+    });
+    break;
+  }
+}
+
+/**
+ * Name the models of a pool for notifications, e.g. "Gemini 3 Pro ↑ / Gemini 3 Pro ↓"
+ */
+function formatPoolName(pool: QuotaPool, snapshot: SnapshotWithInsights): string {
+  return snapshot.modelsWithInsights
+    .filter(m => pool.modelIds.includes(m.modelId))
+    .map(m => modelNamer.name(m, 'medium'))
+    .join(' / ');
+}
+
+/**
+ * Describe whether a model lasts until its reset, with the rate that would make it
+ */
+function formatResetOutlook(model: ModelWithInsights): string | undefined {
+  const outlook = model.insights.resetOutlook;
+  if (!outlook || model.isExhausted) return outlook?.label;
+  return outlook.lastsUntilReset
+    ? outlook.label
+    : `${outlook.label} (keep under ${formatBurnRate(outlook.sustainableBurnRate)})`;
 }
 
 /**
  * Extension deactivation
  */
 export function deactivate(): void {
+  detectionAbort.abort();
   stopPolling();
+  cancelReconnect();
+  simulationServer?.stop();
   console.log('⚡ Antigravity Quota Viewer deactivated');
 }
@@ -0,0 +1,81 @@
+/**
+ * Tests for sudden quota drop detection
+ */
+
+import { detectDropAnomaly } from '../anomalyDetector';
+import { BurnRateSample } from '../../types';
+
+const MINUTE_MS = 60 * 1000;
+const RESET = Date.parse('2025-03-01T15:00:00Z');
+
+/**
+ * One sample every two minutes, one per remaining %
+ */
+function polls(percents: number[], resetTime = RESET): BurnRateSample[] {
+  return percents.map((percent, i) => ({ time: i * 2 * MINUTE_MS, remainingFraction: percent / 100, resetTime }));
+}
+
+describe('detectDropAnomaly', () => {
+  it('should flag a drop far outside the recent drops', () => {
+    const anomaly = detectDropAnomaly(polls([90, 89, 87, 86, 85, 55]));
+
+    expect(anomaly).toEqual({
+      drop: 30,
+      intervalMs: 2 * MINUTE_MS,
+      typicalDrop: 1,
+      threshold: 10,
+      detectedAt: new Date(10 * MINUTE_MS)
+    });
+  });
+
+  it('should accept large drops for a model that always burns fast', () => {
+    expect(detectDropAnomaly(polls([100, 85, 72, 58, 44, 30]))).toBeUndefined();
+  });
+
+  it('should flag a drop that stands out even from fast usage', () => {
+    const anomaly = detectDropAnomaly(polls([100, 95, 89, 84, 78, 73, 40]));
+
+    expect(anomaly?.drop).toBe(33);
+    expect(anomaly?.typicalDrop).toBe(5);
+  });
+
+  it('should ignore drops below the minimum size', () => {
+    expect(detectDropAnomaly(polls([80, 80, 80, 80, 71]))).toBeUndefined();
+  });
+
+  it('should need a larger drop without recent polls to compare with', () => {
+    expect(detectDropAnomaly(polls([80, 65]))).toBeUndefined();
+    expect(detectDropAnomaly(polls([80, 55]))?.drop).toBe(25);
+  });
+
+  it('should ignore the jump at a quota reset', () => {
+    const samples = polls([30, 29, 28, 27, 100]);
+    samples[4].resetTime = RESET + 5 * 60 * MINUTE_MS;
+
+    expect(detectDropAnomaly(samples)).toBeUndefined();
+  });
+
+  it('should not treat a drop over a multi-hour gap as one poll', () => {
+    const samples = polls([90, 89, 88, 87]);
+    samples.push({ time: samples[3].time + 3 * 60 * MINUTE_MS, remainingFraction: 0.55, resetTime: RESET });
+
+    expect(detectDropAnomaly(samples)).toBeUndefined();
+  });
+
+  it('should leave gaps out of the recent drops', () => {
+    const samples = polls([90, 89, 88, 87]);
+    samples.push(
+      { time: samples[3].time + 3 * 60 * MINUTE_MS, remainingFraction: 0.55, resetTime: RESET },
+      ...polls([54, 53, 52, 51, 21]).map(sample => ({ ...sample, time: sample.time + samples[3].time + 4 * 60 * MINUTE_MS }))
+    );
+
+    expect(detectDropAnomaly(samples)).toMatchObject({ drop: 30, typicalDrop: 1 });
+  });
+
+  it('should ignore a repeated sample of the same poll', () => {
+    const samples = polls([90, 89, 88, 60]);
+    samples.push({ ...samples[3] });
+
+    expect(detectDropAnomaly(samples)).toBeUndefined();
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for usage tracking and budget pacing
+ */
+
+import { UsageTracker, findBudget, getBudgetWindow, paceBudget } from '../budgetPacing';
+import { HistoryEntry, UsageBudget } from '../../types';
+import { createMockModelQuota } from '../../__tests__/helpers/mockData';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = new Date(2025, 2, 11, 0, 0);
+const RESET = new Date(START.getTime() + 5 * HOUR_MS);
+
+function entry(hours: number, percent: number, resetTime = RESET): HistoryEntry {
+  return {
+    timestamp: new Date(START.getTime() + hours * HOUR_MS),
+    models: new Map([['claude', { remainingFraction: percent / 100, resetTime }]])
+  };
+}
+
+describe('UsageTracker', () => {
+  let tracker: UsageTracker;
+
+  beforeEach(() => {
+    tracker = new UsageTracker();
+  });
+
+  it('should add up drops without counting quota regained at a reset', () => {
+    const later = new Date(RESET.getTime() + 5 * HOUR_MS);
+    [entry(1, 90), entry(2, 70), entry(6, 100, later), entry(7, 80, later)].forEach(e => tracker.observe(e));
+
+    expect(tracker.usedSince('claude', START.getTime())).toBeCloseTo(40);
+    expect(tracker.usedSince('claude', START.getTime() + 6 * HOUR_MS)).toBeCloseTo(20);
+  });
+
+  it('should count a poll interval that straddles the start in proportion', () => {
+    [entry(1, 90), entry(3, 70)].forEach(e => tracker.observe(e));
+
+    expect(tracker.usedSince('claude', START.getTime() + 2 * HOUR_MS)).toBeCloseTo(10);
+  });
+
+  it('should accept restored entries after live ones', () => {
+    [entry(4, 60), entry(1, 90), entry(2, 80)].forEach(e => tracker.observe(e));
+
+    expect(tracker.usedSince('claude', START.getTime())).toBeCloseTo(30);
+  });
+
+  it('should keep a flat stretch as its first and last sample', () => {
+    [entry(1, 90), entry(2, 90), entry(3, 90), entry(4, 60)].forEach(e => tracker.observe(e));
+
+    expect((tracker as any).samples.get('claude').map((s: { time: number }) => (s.time - START.getTime()) / HOUR_MS))
+      .toEqual([1, 3, 4]);
+  });
+
+  it('should place the last reset at the reset time reported before it', () => {
+    const later = new Date(RESET.getTime() + 5 * HOUR_MS);
+    [entry(4, 10), entry(6, 100, later)].forEach(e => tracker.observe(e));
+
+    expect(tracker.lastResetAt('claude')).toBe(RESET.getTime());
+    expect(tracker.lastResetAt('gemini')).toBeUndefined();
+  });
+
+  it('should not take the rolling reset time of an untouched quota for a reset', () => {
+    [entry(1, 100, new Date(RESET.getTime() + HOUR_MS)), entry(2, 100, new Date(RESET.getTime() + 2 * HOUR_MS))]
+      .forEach(e => tracker.observe(e));
+
+    expect(tracker.lastResetAt('claude')).toBeUndefined();
+  });
+
+  it('should pace a model against a daily budget', () => {
+    [entry(0, 100), entry(6, 70)].forEach(e => tracker.observe(e));
+    const model = createMockModelQuota({ modelId: 'claude', remainingFraction: 0.7, remainingPercent: 70, resetTime: RESET });
+
+    const pacing = tracker.pace(model, { percent: 40, per: 'day' }, undefined, entry(6, 70).timestamp);
+
+    expect(pacing).toMatchObject({ used: 30, expected: 10, status: 'ahead', label: '30% of 40% today · ahead of pace' });
+  });
+});
+
+describe('getBudgetWindow', () => {
+  const now = new Date(START.getTime() + 3 * HOUR_MS);
+  const perReset: UsageBudget = { percent: 50, per: 'reset' };
+
+  it('should use the local calendar day', () => {
+    expect(getBudgetWindow({ percent: 50, per: 'day' }, new Date(2025, 2, 11, 15, 30), RESET))
+      .toEqual({ start: new Date(2025, 2, 11), end: new Date(2025, 2, 12) });
+  });
+
+  it('should derive the reset window from its period', () => {
+    expect(getBudgetWindow(perReset, now, RESET, { kind: 'fixed', ms: 5 * HOUR_MS })).toEqual({ start: START, end: RESET });
+
+    const monthlyReset = new Date(Date.UTC(2025, 2, 31));
+    expect(getBudgetWindow(perReset, now, monthlyReset, { kind: 'monthly' })?.start).toEqual(new Date(Date.UTC(2025, 1, 28)));
+  });
+
+  it('should fall back to the last observed reset', () => {
+    const lastReset = START.getTime() + HOUR_MS;
+    expect(getBudgetWindow(perReset, now, RESET, undefined, lastReset)).toEqual({ start: new Date(lastReset), end: RESET });
+  });
+
+  it('should not guess a reset window without its period or a reset', () => {
+    expect(getBudgetWindow(perReset, now, RESET)).toBeUndefined();
+    expect(getBudgetWindow(perReset, RESET, RESET, { kind: 'fixed', ms: 5 * HOUR_MS })).toBeUndefined();
+  });
+});
+
+describe('paceBudget', () => {
+  const window = { start: START, end: new Date(START.getTime() + 10 * HOUR_MS) };
+  const halfway = new Date(START.getTime() + 5 * HOUR_MS);
+  const budget: UsageBudget = { percent: 40, per: 'reset' };
+
+  it('should be on track near an even pace', () => {
+    const pacing = paceBudget(budget, 21, window, 80, halfway);
+
+    expect(pacing).toMatchObject({ expected: 20, status: 'onTrack', allowedBurnRate: 3.8 });
+    expect(pacing.label).toBe('21% of 40% this window · on track');
+  });
+
+  it('should tell ahead from behind', () => {
+    expect(paceBudget(budget, 30, window, 80, halfway).status).toBe('ahead');
+    expect(paceBudget(budget, 10, window, 80, halfway).status).toBe('behind');
+  });
+
+  it('should not allow more than the remaining quota', () => {
+    expect(paceBudget(budget, 10, window, 5, halfway).allowedBurnRate).toBe(1);
+  });
+
+  it('should allow nothing once the budget is spent', () => {
+    expect(paceBudget(budget, 45, window, 50, halfway).allowedBurnRate).toBe(0);
+  });
+});
+
+describe('findBudget', () => {
+  const model = createMockModelQuota({ modelId: 'claude', label: 'Claude Sonnet 4.5' });
+
+  it('should match by ID or label and default to a daily budget', () => {
+    expect(findBudget({ claude: { percent: 30, per: 'reset' } }, model)).toEqual({ percent: 30, per: 'reset' });
+    expect(findBudget({ 'Claude Sonnet 4.5': { percent: 30 } as UsageBudget }, model)).toEqual({ percent: 30, per: 'day' });
+  });
+
+  it('should ignore budgets without a positive percentage', () => {
+    expect(findBudget({ claude: { percent: 0, per: 'day' } }, model)).toBeUndefined();
+    expect(findBudget({ claude: {} as UsageBudget }, model)).toBeUndefined();
+    expect(findBudget({}, model)).toBeUndefined();
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for the regression-based burn rate
+ */
+
+import { fitBurnRate, formatBurnRate, splitAtResets } from '../burnRate';
+import { BurnRateSample } from '../../types';
+
+const MINUTE_MS = 60 * 1000;
+const RESET = Date.parse('2025-03-01T15:00:00Z');
+
+/**
+ * Samples every `stepMinutes`, one per fraction
+ */
+function samples(fractions: number[], stepMinutes = 10, resetTime: number | undefined = RESET): BurnRateSample[] {
+  return fractions.map((remainingFraction, i) => ({ time: i * stepMinutes * MINUTE_MS, remainingFraction, resetTime }));
+}
+
+describe('splitAtResets', () => {
+  it('should start a new segment when the fraction goes up', () => {
+    const segments = splitAtResets(samples([0.3, 0.2, 0.1, 1, 0.95]));
+
+    expect(segments.map(segment => segment.length)).toEqual([3, 2]);
+  });
+
+  it('should start a new segment when the reset time moves', () => {
+    const series = samples([0, 0, 0]);
+    series[2].resetTime = RESET + 5 * 60 * MINUTE_MS;
+
+    expect(splitAtResets(series).map(segment => segment.length)).toEqual([2, 1]);
+  });
+
+  it('should tolerate reset time jitter and rounding noise', () => {
+    const series = samples([0.5, 0.5004, 0.49]);
+    series[1].resetTime = RESET + 2000;
+
+    expect(splitAtResets(series)).toHaveLength(1);
+  });
+});
+
+describe('fitBurnRate', () => {
+  it('should measure a steady burn from fractions below 1%', () => {
+    // 0.25% every 10 minutes: too fine for integer percentages
+    const fit = fitBurnRate(samples([0.9, 0.8975, 0.895, 0.8925, 0.89, 0.8875]));
+
+    expect(fit.rate).toBeCloseTo(1.5);
+    expect(fit.confidence).toBe(1);
+    expect(fit.samples).toBe(6);
+  });
+
+  it('should only fit the window after the last reset', () => {
+    const fit = fitBurnRate(samples([0.2, 0.1, 0, 1, 0.95, 0.9]));
+
+    expect(fit.rate).toBeCloseTo(30);
+    expect(fit.samples).toBe(3);
+  });
+
+  it('should weigh recent samples more', () => {
+    // Idle for two hours, then burning 12%/h
+    const fit = fitBurnRate(samples([0.9, 0.9, 0.9, 0.9, 0.88, 0.86], 30));
+
+    // An unweighted fit gives ~1.5%/h
+    expect(fit.rate).toBeGreaterThan(1.8);
+    expect(fit.confidence).toBeLessThan(1);
+  });
+
+  it('should report zero with no confidence when there is too little data', () => {
+    expect(fitBurnRate([])).toEqual({ rate: 0, confidence: 0, samples: 0 });
+    expect(fitBurnRate(samples([0.5]))).toEqual({ rate: 0, confidence: 0, samples: 1 });
+    expect(fitBurnRate(samples([0.5, 0.4], 0))).toEqual({ rate: 0, confidence: 0, samples: 2 });
+  });
+
+  it('should scale confidence down for few samples', () => {
+    const fit = fitBurnRate(samples([0.5, 0.4]));
+
+    expect(fit.rate).toBeCloseTo(60);
+    expect(fit.confidence).toBe(0.2);
+  });
+
+  it('should never report a negative rate', () => {
+    expect(fitBurnRate(samples([0.5, 0.5, 0.5])).rate).toBe(0);
+  });
+
+  it('should leave out the rate range until there are enough samples', () => {
+    const fit = fitBurnRate(samples([0.5, 0.45, 0.43]));
+
+    expect(fit.rateLow).toBeUndefined();
+    expect(fit.rateHigh).toBeUndefined();
+  });
+
+  it('should collapse the rate range for a perfectly steady burn', () => {
+    const fit = fitBurnRate(samples([0.9, 0.89, 0.88, 0.87, 0.86]));
+
+    expect(fit.rateLow).toBeCloseTo(6);
+    expect(fit.rateHigh).toBeCloseTo(6);
+  });
+
+  it('should widen the rate range with the scatter of the samples', () => {
+    const steady = fitBurnRate(samples([0.9, 0.88, 0.86, 0.845, 0.82, 0.8]));
+    const erratic = fitBurnRate(samples([0.9, 0.86, 0.86, 0.8, 0.8, 0.8]));
+
+    expect(steady.rateLow!).toBeLessThan(steady.rate);
+    expect(steady.rateHigh!).toBeGreaterThan(steady.rate);
+    expect(erratic.rateHigh! - erratic.rateLow!).toBeGreaterThan(steady.rateHigh! - steady.rateLow!);
+  });
+});
+
+describe('formatBurnRate', () => {
+  it('should keep one decimal only for slow rates', () => {
+    expect(formatBurnRate(12.4)).toBe('12%/h');
+    expect(formatBurnRate(2.46)).toBe('2.5%/h');
+    expect(formatBurnRate(0)).toBe('0%/h');
+  });
+});
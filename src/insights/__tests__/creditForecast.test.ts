@@ -0,0 +1,96 @@
+/**
+ * Tests for credit consumption tracking and end-of-cycle projection
+ */
+
+import { CreditTracker, getBillingCycle } from '../creditForecast';
+import { CreditPool, HistoryEntry, PlanDetails } from '../../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const now = new Date('2025-03-11T12:00:00Z');
+const plan: PlanDetails = { cycleStart: new Date('2025-03-01T12:00:00Z'), cycleEnd: new Date('2025-03-31T12:00:00Z') };
+const prompt = (available: number): CreditPool => ({ id: 'prompt', label: 'Prompt Credits', available, monthly: 500 });
+
+function entry(daysAgo: number, available: number): HistoryEntry {
+  return { timestamp: new Date(now.getTime() - daysAgo * DAY_MS), models: new Map(), credits: { prompt: available } };
+}
+
+describe('CreditTracker', () => {
+  let tracker: CreditTracker;
+
+  beforeEach(() => {
+    tracker = new CreditTracker();
+  });
+
+  it('should measure credits per day and project the balance at the cycle end', () => {
+    [entry(4, 460), entry(2, 440), entry(0, 420)].forEach(e => tracker.observe(e));
+
+    const [forecast] = tracker.forecast([prompt(420)], plan, now);
+
+    expect(forecast.creditsPerDay).toBeCloseTo(10);
+    expect(forecast.projectedBalance).toBe(220);
+    expect(forecast.runsOutAt).toBeUndefined();
+    expect(forecast.cycleEndEstimated).toBe(false);
+    expect(forecast.history.map(point => point.available)).toEqual([460, 440, 420]);
+  });
+
+  it('should predict when credits run out before the cycle ends', () => {
+    [entry(2, 300), entry(0, 200)].forEach(e => tracker.observe(e));
+
+    const [forecast] = tracker.forecast([prompt(200)], plan, now);
+
+    expect(forecast.creditsPerDay).toBeCloseTo(50);
+    expect(forecast.projectedBalance).toBe(-800);
+    expect(forecast.runsOutAt?.getTime()).toBe(now.getTime() + 4 * DAY_MS);
+  });
+
+  it('should measure only since the last refill', () => {
+    [entry(6, 20), entry(5, 500), entry(1, 480), entry(0, 475)].forEach(e => tracker.observe(e));
+
+    const [forecast] = tracker.forecast([prompt(475)], plan, now);
+
+    expect(forecast.creditsPerDay).toBeCloseTo(5);
+  });
+
+  it('should wait for an hour of history before projecting', () => {
+    tracker.observe(entry(0.01, 421));
+    tracker.observe(entry(0, 420));
+
+    const [forecast] = tracker.forecast([prompt(420)], plan, now);
+
+    expect(forecast.creditsPerDay).toBeUndefined();
+    expect(forecast.projectedBalance).toBeUndefined();
+  });
+
+  it('should accept restored entries after live ones and collapse flat stretches', () => {
+    tracker.observe(entry(0, 400));
+    [entry(3, 400), entry(2, 400), entry(1, 400)].forEach(e => tracker.observe(e));
+
+    const [forecast] = tracker.forecast([prompt(400)], plan, now);
+
+    expect(forecast.creditsPerDay).toBe(0);
+    expect(forecast.history.map(point => point.time.getTime())).toEqual([
+      now.getTime() - 3 * DAY_MS,
+      now.getTime() - 2 * DAY_MS,
+      now.getTime() - DAY_MS,
+      now.getTime()
+    ]);
+
+    tracker.observe({ ...entry(0, 400), timestamp: new Date(now.getTime() + HOUR_MS) });
+    const [later] = tracker.forecast([prompt(400)], plan, now);
+    expect(later.history).toHaveLength(4);
+  });
+});
+
+describe('getBillingCycle', () => {
+  it('should use the reported cycle while it lasts', () => {
+    expect(getBillingCycle(plan, now)).toEqual({ start: plan.cycleStart, end: plan.cycleEnd, estimated: false });
+  });
+
+  it('should assume the calendar month otherwise', () => {
+    const local = new Date(2025, 2, 11, 12);
+    const cycle = getBillingCycle({ cycleEnd: new Date(2025, 2, 1) }, local);
+
+    expect(cycle).toEqual({ start: new Date(2025, 2, 1), end: new Date(2025, 3, 1), estimated: true });
+  });
+});
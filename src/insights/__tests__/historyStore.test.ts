@@ -0,0 +1,199 @@
+/**
+ * Tests for the persistent history store
+ */
+
+import * as fs from 'fs';
+import * as fsPromises from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { SimulatedClock } from '../../core/clock';
+import { downsampleHistory, HistoryStore, parseHistory } from '../historyStore';
+import { createMockModelQuota, createMockQuotaSnapshot } from '../../__tests__/helpers/mockData';
+import { HistoryEntry } from '../../types';
+
+// Real file operations, with writeFile open to interleave another window's append
+jest.mock('fs/promises', () => {
+  const actual = jest.requireActual('fs/promises');
+  return { ...actual, writeFile: jest.fn(actual.writeFile) };
+});
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function entryAt(time: number, percent = 50): HistoryEntry {
+  return { timestamp: new Date(time), models: new Map([['model-a', { remainingFraction: percent / 100 }]]) };
+}
+
+/**
+ * Remaining % of the test model in an entry
+ */
+function percentOf(entry: HistoryEntry): number | undefined {
+  const sample = entry.models.get('model-a');
+  return sample && Math.round(sample.remainingFraction * 100);
+}
+
+describe('downsampleHistory', () => {
+  const now = new Date('2025-03-31T12:00:00Z');
+
+  it('should keep the last day raw, one entry per hour for a month and drop the rest', () => {
+    const base = now.getTime();
+    const entries = [
+      entryAt(base - 31 * 24 * HOUR_MS),
+      entryAt(base - 48 * HOUR_MS + 5 * 60000, 60),
+      entryAt(base - 48 * HOUR_MS + 30 * 60000, 59),
+      entryAt(base - 47 * HOUR_MS + 5 * 60000, 58),
+      entryAt(base - 2 * 60000, 40),
+      entryAt(base, 39)
+    ];
+    // Line up the two-day-old pair within one clock hour
+    entries[1].timestamp = new Date('2025-03-29T12:05:00Z');
+    entries[2].timestamp = new Date('2025-03-29T12:30:00Z');
+
+    const result = downsampleHistory(entries, now);
+
+    expect(result.map(percentOf)).toEqual([59, 58, 40, 39]);
+  });
+});
+
+describe('parseHistory', () => {
+  it('should sort entries and skip invalid lines', () => {
+    const content = [
+      JSON.stringify({ timestamp: '2025-03-01T10:05:00Z', models: { a: { remainingFraction: 0.4, resetTime: '2025-03-01T15:00:00Z' } } }),
+      '{"timestamp": "2025-03-01T10:0',
+      JSON.stringify({ timestamp: 'soon', models: { a: 1 } }),
+      JSON.stringify({ timestamp: '2025-03-01T10:00:00Z', models: { a: 50, b: 'full' } })
+    ].join('\n');
+
+    const entries = parseHistory(content);
+
+    expect(entries.map(entry => entry.timestamp.toISOString())).toEqual([
+      '2025-03-01T10:00:00.000Z',
+      '2025-03-01T10:05:00.000Z'
+    ]);
+    expect([...entries[0].models.keys()]).toEqual(['a']);
+    expect(entries[1].models.get('a')).toEqual({ remainingFraction: 0.4, resetTime: new Date('2025-03-01T15:00:00Z') });
+  });
+
+  it('should read entries that stored a plain percentage', () => {
+    const [entry] = parseHistory(JSON.stringify({ timestamp: '2025-03-01T10:00:00Z', models: { a: 75 } }));
+
+    expect(entry.models.get('a')).toEqual({ remainingFraction: 0.75 });
+  });
+});
+
+describe('HistoryStore', () => {
+  let dir: string;
+  let file: string;
+  let clock: SimulatedClock;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'quota-history-'));
+    file = path.join(dir, 'nested', 'history.jsonl');
+    clock = new SimulatedClock(new Date('2025-03-01T10:00:00Z'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Move the simulated clock forward
+   */
+  function advance(ms: number): void {
+    clock.set(new Date(clock.now().getTime() + ms));
+  }
+
+  /**
+   * Snapshot at the simulated clock with one model at the given percentage
+   */
+  function snapshotAt(percent: number) {
+    return createMockQuotaSnapshot({
+      timestamp: clock.now(),
+      models: [createMockModelQuota({ modelId: 'model-a', remainingPercent: percent, remainingFraction: percent / 100 })]
+    });
+  }
+
+  it('should start empty when there is no file', async () => {
+    expect(await new HistoryStore(file, clock).load()).toEqual([]);
+  });
+
+  it('should survive a restart', async () => {
+    const store = new HistoryStore(file, clock);
+    await store.load();
+    await store.append(snapshotAt(80));
+    advance(2 * 60000);
+    await store.append(snapshotAt(78));
+
+    const reloaded = await new HistoryStore(file, clock).load();
+
+    expect(reloaded.map(percentOf)).toEqual([80, 78]);
+    expect(reloaded[1].timestamp.getTime()).toBe(clock.now().getTime());
+  });
+
+  it('should keep credit balances across a restart', async () => {
+    const store = new HistoryStore(file, clock);
+    await store.load();
+    await store.append(createMockQuotaSnapshot({
+      timestamp: clock.now(),
+      creditPools: [{ id: 'prompt', label: 'Prompt Credits', available: 350, monthly: 500 }, { id: 'flex', label: 'Flex Credits', available: 75 }]
+    }));
+
+    const [entry] = await new HistoryStore(file, clock).load();
+
+    expect(entry.credits).toEqual({ prompt: 350, flex: 75 });
+  });
+
+  it('should downsample the file as entries age', async () => {
+    const store = new HistoryStore(file, clock);
+    await store.load();
+    for (let i = 0; i < 6; i++) {
+      await store.append(snapshotAt(90 - i));
+      advance(10 * 60000);
+    }
+
+    // Two days later all six entries fall into one old hour
+    advance(48 * HOUR_MS);
+    const reloaded = await new HistoryStore(file, clock).load();
+
+    expect(reloaded.map(percentOf)).toEqual([85]);
+    expect(fs.readFileSync(file, 'utf8').trim().split('\n')).toHaveLength(1);
+  });
+
+  it('should keep concurrent appends in order', async () => {
+    const store = new HistoryStore(file, clock);
+    await Promise.all([store.load(), store.append(snapshotAt(70)), store.append(snapshotAt(69))]);
+
+    expect(store.getEntries().map(percentOf)).toEqual([70, 69]);
+  });
+
+  it('should let several windows compact the same file at once', async () => {
+    const store = new HistoryStore(file, clock);
+    await store.load();
+    await store.append(snapshotAt(80));
+    advance(2 * 60000);
+    await store.append(snapshotAt(78));
+
+    await Promise.all([new HistoryStore(file, clock).load(), new HistoryStore(file, clock).load()]);
+
+    expect((await new HistoryStore(file, clock).load()).map(percentOf)).toEqual([80, 78]);
+    expect(fs.readdirSync(path.dirname(file))).toEqual(['history.jsonl']);
+  });
+
+  it('should keep lines another window appends while compacting', async () => {
+    const store = new HistoryStore(file, clock);
+    await store.load();
+    await store.append(snapshotAt(80));
+    const other = new HistoryStore(file, clock);
+    await other.load();
+    advance(2 * 60000);
+
+    // The other window polls while this one writes its compacted copy
+    const writeFile = jest.requireActual('fs/promises').writeFile;
+    (fsPromises.writeFile as jest.Mock).mockImplementationOnce(async (...args: unknown[]) => {
+      await other.append(snapshotAt(78));
+      return writeFile(...args);
+    });
+    await new HistoryStore(file, clock).load();
+
+    expect((await new HistoryStore(file, clock).load()).map(percentOf)).toEqual([80, 78]);
+  });
+});
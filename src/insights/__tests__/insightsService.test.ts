@@ -53,6 +53,161 @@ describe('InsightsService', () => {
       );
     });
 
+    it('should count models sharing a quota once in the overall health', () => {
+      const resetTime = new Date(Date.now() + 3600000);
+      const snapshot = createMockQuotaSnapshot({
+        models: [
+          createMockModelQuota({ modelId: 'gemini-high', remainingFraction: 0.2, remainingPercent: 20, resetTime }),
+          createMockModelQuota({ modelId: 'gemini-low', remainingFraction: 0.2, remainingPercent: 20, resetTime }),
+          createMockModelQuota({ modelId: 'claude', remainingFraction: 0.8, remainingPercent: 80, resetTime })
+        ]
+      });
+      const result = service.analyze(snapshot);
+
+      expect(result.pools.map(pool => pool.modelIds)).toEqual([['gemini-high', 'gemini-low'], ['claude']]);
+      expect(result.overallHealth).toBe(50);
+    });
+
+    it('should report the drop size of the poll that saw it', () => {
+      const start = Date.now();
+      const resetTime = new Date(start + 3600000);
+      const analyzeAt = (i: number, percent: number) => service.analyze(createMockQuotaSnapshot({
+        timestamp: new Date(start + i * 120000),
+        models: [createMockModelQuota({ modelId: 'claude', remainingFraction: percent / 100, remainingPercent: percent, resetTime })]
+      }));
+      [90, 89, 88, 87].forEach((percent, i) => analyzeAt(i, percent));
+
+      const model = analyzeAt(4, 57).modelsWithInsights[0];
+
+      expect(model.insights.anomaly?.drop).toBe(30);
+      expect(model.insights.trendDirection).toBe('critical');
+    });
+
+    it('should clear the anomaly on the next poll', () => {
+      const start = Date.now();
+      const resetTime = new Date(start + 3600000);
+      const analyzeAt = (i: number, percent: number) => service.analyze(createMockQuotaSnapshot({
+        timestamp: new Date(start + i * 120000),
+        models: [createMockModelQuota({ modelId: 'claude', remainingFraction: percent / 100, remainingPercent: percent, resetTime })]
+      }));
+      [90, 89, 88, 87, 57].forEach((percent, i) => analyzeAt(i, percent));
+
+      const model = analyzeAt(5, 57).modelsWithInsights[0];
+
+      expect(model.insights.anomaly).toBeUndefined();
+    });
+
+    it('should leave models with a guessed quota out of history and analytics', () => {
+      const snapshot = createMockQuotaSnapshot({
+        models: [
+          createMockModelQuota({ modelId: 'claude', remainingFraction: 0.2, remainingPercent: 20 }),
+          createMockModelQuota({ modelId: 'gemini', remainingFraction: 1, remainingPercent: 100, isQuotaUnknown: true })
+        ]
+      });
+
+      const result = service.analyze(snapshot);
+
+      expect((service as any).history[0].models.has('gemini')).toBe(false);
+      expect(result.pools.map(pool => pool.modelIds)).toEqual([['claude']]);
+      expect(result.overallHealth).toBe(20);
+      expect(result.resetTimeline?.map(reset => reset.modelId)).toEqual(['claude']);
+      expect(result.modelsWithInsights[1]).toMatchObject({
+        modelId: 'gemini',
+        insights: { predictedExhaustionLabel: 'Unknown', isActive: false }
+      });
+    });
+
+    it('should suggest alternatives to the active model from the configured equivalents', () => {
+      service = new InsightsService(undefined, { modelEquivalents: [['Claude', 'Gemini']] });
+      const start = Date.now();
+      const resetTime = new Date(start + 3600000);
+      const analyzeAt = (i: number, claude: number) => service.analyze(createMockQuotaSnapshot({
+        timestamp: new Date(start + i * 600000),
+        models: [
+          createMockModelQuota({ modelId: 'claude', label: 'Claude', remainingFraction: claude / 100, remainingPercent: claude, resetTime }),
+          createMockModelQuota({ modelId: 'gemini', label: 'Gemini', remainingFraction: 0.4, remainingPercent: 40, resetTime }),
+          createMockModelQuota({ modelId: 'gpt', label: 'GPT', remainingFraction: 0.9, remainingPercent: 90, resetTime })
+        ]
+      }));
+      analyzeAt(0, 30);
+
+      const result = analyzeAt(1, 20);
+
+      expect(result.modelsWithInsights[0]).toMatchObject({ modelId: 'claude', insights: { isActive: true } });
+      expect(result.alternatives?.map(r => r.modelId)).toEqual(['gemini', 'gpt']);
+    });
+
+    it('should pace the pool of a model with a budget', () => {
+      service = new InsightsService(undefined, { budgets: { Claude: { percent: 40, per: 'day' } } });
+      const start = new Date(2025, 2, 11, 12);
+      const resetTime = new Date(start.getTime() + 3600000);
+      const analyzeAt = (hours: number, percent: number) => service.analyze(createMockQuotaSnapshot({
+        timestamp: new Date(start.getTime() + hours * 3600000),
+        models: [createMockModelQuota({ modelId: 'claude', label: 'Claude', remainingFraction: percent / 100, remainingPercent: percent, resetTime })]
+      }));
+      analyzeAt(0, 80);
+
+      const result = analyzeAt(0.5, 50);
+
+      expect(result.pools[0].pacing).toMatchObject({ used: 30, status: 'ahead' });
+    });
+
+    describe('exhaustion range', () => {
+      const start = new Date('2025-03-01T12:00:00Z');
+      const resetTime = new Date(start.getTime() + 3 * 3600000);
+      let now = start;
+      const analyzeAt = (i: number, percent: number) => {
+        now = new Date(start.getTime() + i * 600000);
+        return service.analyze(createMockQuotaSnapshot({
+          timestamp: now,
+          models: [createMockModelQuota({ modelId: 'claude', remainingFraction: percent / 100, remainingPercent: percent, resetTime })]
+        })).modelsWithInsights[0];
+      };
+
+      beforeEach(() => {
+        service = new InsightsService({ now: () => now });
+      });
+
+      it('should not predict from a couple of polls', () => {
+        analyzeAt(0, 60);
+        const model = analyzeAt(1, 58);
+
+        expect(model.insights.burnRate).toBeGreaterThan(0);
+        expect(model.insights.exhaustionRange).toBeUndefined();
+        expect(model.insights.predictedExhaustionLabel).toBe('Not enough data');
+      });
+
+      it('should give no reset outlook from a couple of polls', () => {
+        analyzeAt(0, 50);
+        const model = analyzeAt(1, 45);
+
+        // The point estimate alone would run out well before the reset
+        expect(model.insights.predictedExhaustion!.getTime()).toBeLessThan(resetTime.getTime());
+        expect(model.insights.resetOutlook).toBeUndefined();
+      });
+
+      it('should bracket the point estimate once the burn has been observed', () => {
+        [60, 56, 55, 51].forEach((percent, i) => analyzeAt(i, percent));
+        const model = analyzeAt(4, 48);
+        const range = model.insights.exhaustionRange!;
+
+        expect(range.earliest.getTime()).toBeLessThan(model.insights.predictedExhaustion!.getTime());
+        expect(range.latest!.getTime()).toBeGreaterThan(model.insights.predictedExhaustion!.getTime());
+        expect(model.insights.predictedExhaustionLabel).toBe('2h–4h 22m');
+        expect(range.earliestLabel).toBe('~2h');
+      });
+
+      it('should judge the reset outlook by the earliest exhaustion', () => {
+        [60, 56, 55, 51].forEach((percent, i) => analyzeAt(i, percent));
+        const model = analyzeAt(4, 48);
+
+        // The point estimate lasts past the reset, the fastest plausible burn does not
+        expect(model.insights.predictedExhaustion!.getTime()).toBeGreaterThan(resetTime.getTime());
+        expect(model.insights.resetOutlook?.lastsUntilReset).toBe(false);
+        expect(model.insights.resetOutlook?.label).toBe('Runs out ~20m before reset');
+      });
+    });
+
     it('should track session start time', () => {
       const snapshot = createMockQuotaSnapshot();
       const result = service.analyze(snapshot);
@@ -92,6 +247,28 @@ describe('InsightsService', () => {
       expect(burnRate).toBeGreaterThanOrEqual(0);
     });
 
+    it('should restart after a quota reset instead of reporting zero', () => {
+      const start = Date.parse('2025-03-01T10:00:00Z');
+      const at = (minutes: number, fraction: number) => createMockQuotaSnapshot({
+        timestamp: new Date(start + minutes * 60000),
+        models: [createMockModelQuota({
+          modelId: 'model-a',
+          remainingFraction: fraction,
+          remainingPercent: Math.round(fraction * 100),
+          resetTime: new Date(fraction > 0.5 ? start + 300 * 60000 : start + 60 * 60000)
+        })]
+      });
+
+      service.analyze(at(0, 0.3));
+      service.analyze(at(30, 0.2));
+      service.analyze(at(60, 1));
+      const model = service.analyze(at(90, 0.9)).modelsWithInsights[0];
+
+      expect(model.insights.burnRate).toBeCloseTo(20);
+      expect(model.insights.burnRateSamples).toBe(2);
+      expect(model.insights.burnRateConfidence).toBeGreaterThan(0);
+    });
+
     it('should return 0 for unknown model', () => {
       const snapshot = createMockQuotaSnapshot();
       service.analyze(snapshot);
@@ -177,6 +354,11 @@ describe('InsightsService', () => {
       expect(trend).toBe('critical');
     });
 
+    it('should return "critical" after a sudden drop', () => {
+      const trend = (service as any).getTrendDirection(70, 0.5, true);
+      expect(trend).toBe('critical');
+    });
+
     it('should return "warning" for medium remaining with high burn rate', () => {
       const trend = (service as any).getTrendDirection(30, 11);
       expect(trend).toBe('warning');
@@ -298,38 +480,6 @@ describe('InsightsService', () => {
     });
   });
 
-  describe('getShortName', () => {
-    it('should shorten Claude model names', () => {
-      // The regex captures the version number after Claude
-      expect((service as any).getShortName('Claude 3.5 Sonnet')).toBe('Claude 3.5');
-      expect((service as any).getShortName('Claude 3 Opus')).toBe('Claude 3');
-    });
-
-    it('should shorten GPT model names', () => {
-      expect((service as any).getShortName('GPT-4')).toBe('GPT');
-      expect((service as any).getShortName('GPT-4 Turbo')).toBe('GPT');
-      expect((service as any).getShortName('GPT-3.5 Turbo')).toBe('GPT');
-    });
-
-    it('should shorten Gemini model names', () => {
-      expect((service as any).getShortName('Gemini Pro')).toBe('Pro');
-      expect((service as any).getShortName('Gemini 1.5 Pro')).toBe('Pro');
-      expect((service as any).getShortName('Gemini Flash')).toBe('Flash');
-    });
-
-    it('should handle unknown model names', () => {
-      const result1 = (service as any).getShortName('Unknown Model');
-      expect(result1).toBe('Unknow');
-      const result2 = (service as any).getShortName('Custom AI v2');
-      expect(result2).toBe('Custom');
-    });
-
-    it('should handle empty or short names', () => {
-      expect((service as any).getShortName('')).toBe('');
-      expect((service as any).getShortName('AI')).toBe('AI');
-    });
-  });
-
   describe('recordSnapshot', () => {
     it('should add snapshot to history', () => {
       const snapshot = createMockQuotaSnapshot();
@@ -370,6 +520,118 @@ describe('InsightsService', () => {
     });
   });
 
+  describe('getResetOutlook', () => {
+    const now = new Date('2025-03-01T12:00:00Z');
+    const HOUR_MS = 60 * 60 * 1000;
+    const model = (fraction: number, hoursToReset: number) => createMockModelQuota({
+      remainingFraction: fraction,
+      remainingPercent: Math.round(fraction * 100),
+      isExhausted: fraction === 0,
+      resetTime: new Date(now.getTime() + hoursToReset * HOUR_MS)
+    });
+
+    beforeEach(() => {
+      service = new InsightsService({ now: () => now });
+    });
+
+    it('should report a model that lasts when exhaustion is predicted after the reset', () => {
+      const outlook = (service as any).getResetOutlook(model(0.6, 2), new Date(now.getTime() + 6 * HOUR_MS));
+
+      expect(outlook).toEqual({ lastsUntilReset: true, shortfallMs: 0, sustainableBurnRate: 30, label: 'Lasts until reset' });
+    });
+
+    it('should report how long before the reset the quota runs out', () => {
+      const outlook = (service as any).getResetOutlook(model(0.2, 2), new Date(now.getTime() + 1.25 * HOUR_MS));
+
+      expect(outlook.lastsUntilReset).toBe(false);
+      expect(outlook.shortfallMs).toBe(0.75 * HOUR_MS);
+      expect(outlook.sustainableBurnRate).toBeCloseTo(10);
+      expect(outlook.label).toBe('Runs out ~45m before reset');
+    });
+
+    it('should treat a model without a predicted exhaustion as lasting', () => {
+      expect((service as any).getResetOutlook(model(0.5, 3), undefined).lastsUntilReset).toBe(true);
+    });
+
+    it('should flag exhausted models and skip past reset times', () => {
+      expect((service as any).getResetOutlook(model(0, 1), undefined).label).toBe('Exhausted until reset');
+      expect((service as any).getResetOutlook(model(0.5, -1), undefined)).toBeUndefined();
+    });
+
+    it('should be part of the analyzed insights', () => {
+      const [analyzed] = service.analyze(createMockQuotaSnapshot({ timestamp: now, models: [model(0.5, 2)] })).modelsWithInsights;
+
+      expect(analyzed.insights.resetOutlook?.label).toBe('Lasts until reset');
+    });
+  });
+
+  describe('restoreHistory', () => {
+    const now = new Date('2025-03-01T12:00:00Z');
+    const entry = (hoursAgo: number, percent: number) => ({
+      timestamp: new Date(now.getTime() - hoursAgo * 60 * 60 * 1000),
+      models: new Map([['claude-3-5-sonnet', { remainingFraction: percent / 100 }]])
+    });
+
+    it('should restore the burn rate after a restart', () => {
+      service = new InsightsService({ now: () => now });
+      service.restoreHistory([entry(48, 100), entry(1, 80)]);
+
+      const snapshot = createMockQuotaSnapshot({
+        timestamp: now,
+        models: [createMockModelQuota({ modelId: 'claude-3-5-sonnet', remainingPercent: 70, remainingFraction: 0.7 })]
+      });
+      const model = service.analyze(snapshot).modelsWithInsights[0];
+
+      // The two-day-old entry is too old to count
+      expect(model.insights.burnRate).toBeCloseTo(10);
+    });
+
+    it('should not flag usage over the gap since the restored history as a sudden drop', () => {
+      service = new InsightsService({ now: () => now });
+      const minutesAgo = (minutes: number) => minutes / 60;
+      service.restoreHistory([entry(3 + minutesAgo(6), 90), entry(3 + minutesAgo(4), 89), entry(3 + minutesAgo(2), 88), entry(3, 87)]);
+
+      const model = service.analyze(createMockQuotaSnapshot({
+        timestamp: now,
+        models: [createMockModelQuota({ modelId: 'claude-3-5-sonnet', remainingPercent: 57, remainingFraction: 0.57 })]
+      })).modelsWithInsights[0];
+
+      expect(model.insights.anomaly).toBeUndefined();
+    });
+
+    it('should keep entries recorded in this session', () => {
+      service = new InsightsService({ now: () => now });
+      service.analyze(createMockQuotaSnapshot({ timestamp: now }));
+      service.restoreHistory([entry(1, 80), entry(0, 75)]);
+
+      const history = (service as any).history;
+      expect(history).toHaveLength(2);
+      expect(history[1].timestamp).toEqual(now);
+    });
+
+    it('should learn reset cycles from the whole restored history', () => {
+      const hour = 60 * 60 * 1000;
+      const sample = (hoursAgo: number, fraction: number, resetHoursAgo: number) => ({
+        timestamp: new Date(now.getTime() - hoursAgo * hour),
+        models: new Map([['claude-3-5-sonnet', {
+          remainingFraction: fraction,
+          resetTime: new Date(now.getTime() - resetHoursAgo * hour)
+        }]])
+      });
+      service = new InsightsService({ now: () => now });
+      service.restoreHistory([sample(48, 0.3, 47), sample(46, 0.8, 23)]);
+
+      const resetTime = new Date(now.getTime() + hour);
+      const result = service.analyze(createMockQuotaSnapshot({
+        timestamp: now,
+        models: [createMockModelQuota({ modelId: 'claude-3-5-sonnet', remainingFraction: 0.9, resetTime })]
+      }));
+
+      expect(result.resetCycles?.[0].periodLabel).toBe('Daily');
+      expect(result.resetTimeline?.map(reset => reset.time.getTime() - resetTime.getTime())).toEqual([0, 24 * hour, 48 * hour]);
+    });
+  });
+
   describe('initSessionStart', () => {
     it('should initialize session start quotas', () => {
       const snapshot = createMockQuotaSnapshot();
@@ -0,0 +1,90 @@
+/**
+ * Tests for shared quota pool detection
+ */
+
+import { detectPools, findPool } from '../quotaPools';
+import { HistoryEntry, ModelWithInsights } from '../../types';
+import { createMockModelQuota } from '../../__tests__/helpers/mockData';
+
+const RESET = new Date('2025-03-01T15:00:00Z');
+
+function model(modelId: string, remainingFraction: number, burnRate = 0, resetTime = RESET): ModelWithInsights {
+  return {
+    ...createMockModelQuota({
+      modelId,
+      label: modelId.toUpperCase(),
+      remainingFraction,
+      remainingPercent: Math.round(remainingFraction * 100),
+      resetTime
+    }),
+    insights: {
+      burnRate,
+      burnRateConfidence: 1,
+      burnRateSamples: 2,
+      burnRateLabel: burnRate > 2 ? 'Moderate' : 'Slow',
+      predictedExhaustionLabel: burnRate > 0 ? `~${burnRate}h` : 'Safe',
+      trendDirection: 'stable',
+      sessionUsage: 0,
+      isActive: false
+    }
+  };
+}
+
+function entry(fractions: Record<string, number>): HistoryEntry {
+  return {
+    timestamp: new Date(RESET.getTime() - 60 * 60 * 1000),
+    models: new Map(Object.entries(fractions).map(([id, remainingFraction]) => [id, { remainingFraction, resetTime: RESET }]))
+  };
+}
+
+describe('detectPools', () => {
+  it('should group models that move in lockstep', () => {
+    const pools = detectPools(
+      [model('a', 0.6, 2), model('b', 0.6, 3), model('c', 0.9)],
+      [entry({ a: 0.8, b: 0.8, c: 0.9 }), entry({ a: 0.6, b: 0.6, c: 0.9 })]
+    );
+
+    expect(pools.map(pool => pool.modelIds)).toEqual([['a', 'b'], ['c']]);
+    expect(pools[0]).toMatchObject({ id: 'a+b', label: 'A / B', remainingPercent: 60, burnRate: 3, burnRateLabel: 'Moderate' });
+  });
+
+  it('should not group models that diverged in history', () => {
+    const pools = detectPools(
+      [model('a', 0.6), model('b', 0.6)],
+      [entry({ a: 0.7, b: 0.8 }), entry({ a: 0.6, b: 0.6 })]
+    );
+
+    expect(pools).toHaveLength(2);
+  });
+
+  it('should not group models with different reset times', () => {
+    const later = new Date(RESET.getTime() + 5 * 60 * 60 * 1000);
+    const pools = detectPools([model('a', 0.5), model('b', 0.5, 0, later)], []);
+
+    expect(pools).toHaveLength(2);
+  });
+
+  it('should not group untouched quotas', () => {
+    const pools = detectPools([model('a', 1), model('b', 1)], [entry({ a: 1, b: 1 })]);
+
+    expect(pools).toHaveLength(2);
+  });
+
+  it('should mark a pool active when any member is', () => {
+    const active = model('b', 0.4);
+    active.insights.isActive = true;
+    const pools = detectPools([model('a', 0.4), active], []);
+
+    expect(pools).toHaveLength(1);
+    expect(pools[0].isActive).toBe(true);
+  });
+});
+
+describe('findPool', () => {
+  it('should find the pool of a member', () => {
+    const pools = detectPools([model('a', 0.5), model('b', 0.5), model('c', 0.2)], []);
+
+    expect(findPool(pools, 'b')?.id).toBe('a+b');
+    expect(findPool(pools, 'missing')).toBeUndefined();
+  });
+});
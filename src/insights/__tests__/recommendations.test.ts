@@ -0,0 +1,86 @@
+/**
+ * Tests for ranking alternatives to the active model
+ */
+
+import { describeRecommendation, recommendAlternatives } from '../recommendations';
+import { detectPools } from '../quotaPools';
+import { ModelWithInsights } from '../../types';
+import { createMockModelQuota } from '../../__tests__/helpers/mockData';
+
+const RESET = new Date('2025-03-01T15:00:00Z');
+
+function model(modelId: string, remainingPercent: number, options: { active?: boolean; lasts?: boolean } = {}): ModelWithInsights {
+  return {
+    ...createMockModelQuota({
+      modelId,
+      label: modelId.toUpperCase(),
+      remainingFraction: remainingPercent / 100,
+      remainingPercent,
+      isExhausted: remainingPercent === 0,
+      resetTime: RESET,
+      timeUntilResetFormatted: '3h 0m'
+    }),
+    insights: {
+      burnRate: 0,
+      burnRateConfidence: 1,
+      burnRateSamples: 2,
+      burnRateLabel: 'Idle',
+      predictedExhaustionLabel: 'Safe',
+      trendDirection: 'stable',
+      sessionUsage: 0,
+      isActive: options.active ?? false,
+      resetOutlook: options.lasts === undefined
+        ? undefined
+        : { lastsUntilReset: options.lasts, shortfallMs: 0, sustainableBurnRate: 10, label: '' }
+    }
+  };
+}
+
+function recommend(models: ModelWithInsights[], equivalents: string[][] = []): string[] {
+  return recommendAlternatives(models, detectPools(models, []), equivalents).map(r => r.modelId);
+}
+
+describe('recommendAlternatives', () => {
+  it('should rank other models by remaining quota', () => {
+    expect(recommend([model('a', 10, { active: true }), model('b', 40), model('c', 72)])).toEqual(['c', 'b']);
+  });
+
+  it('should recommend nothing without an active model', () => {
+    expect(recommend([model('a', 10), model('b', 72)])).toEqual([]);
+  });
+
+  it('should skip exhausted models and models with less quota left', () => {
+    expect(recommend([model('a', 30, { active: true }), model('b', 0), model('c', 20), model('d', 31)])).toEqual(['d']);
+  });
+
+  it('should prefer models that last until their reset', () => {
+    expect(recommend([model('a', 10, { active: true }), model('b', 90, { lasts: false }), model('c', 50, { lasts: true })]))
+      .toEqual(['c', 'b']);
+  });
+
+  it('should put equivalents first, in the order of their group', () => {
+    const models = [model('a', 10, { active: true }), model('b', 40), model('c', 50), model('d', 90)];
+
+    expect(recommend(models, [['a', 'b', 'C']])).toEqual(['b', 'c', 'd']);
+    expect(recommend(models, [['d', 'x'], ['c', 'A']])).toEqual(['c', 'd', 'b']);
+  });
+
+  it('should skip models sharing the active quota and keep one model per pool', () => {
+    const models = [model('a', 10, { active: true }), model('b', 10), model('c', 60), model('d', 60)];
+
+    const alternatives = recommendAlternatives(models, detectPools(models, []), [['a', 'd']]);
+
+    expect(alternatives.map(r => r.modelId)).toEqual(['d']);
+    expect(alternatives[0]).toMatchObject({ label: 'D', remainingPercent: 60, lastsUntilReset: true, isEquivalent: true });
+  });
+});
+
+describe('describeRecommendation', () => {
+  it('should mention the remaining quota and the reset', () => {
+    const [alternative] = recommendAlternatives([model('a', 10, { active: true }), model('b', 72)], []);
+
+    expect(describeRecommendation(alternative)).toBe('72% left, resets in 3h 0m');
+    expect(describeRecommendation({ ...alternative, lastsUntilReset: false }))
+      .toBe('72% left, resets in 3h 0m, may run out before reset');
+  });
+});
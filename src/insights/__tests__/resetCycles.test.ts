@@ -0,0 +1,153 @@
+/**
+ * Tests for reset cycle learning and prediction
+ */
+
+import { formatPeriod, inferPeriod, nextResets, ResetCycleTracker } from '../resetCycles';
+import { HistoryEntry } from '../../types';
+import { createMockModelQuota } from '../../__tests__/helpers/mockData';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const START = Date.parse('2025-03-01T10:00:00Z');
+
+function entry(time: number, remainingFraction: number, resetTime: number, modelId = 'model-a'): HistoryEntry {
+  return {
+    timestamp: new Date(time),
+    models: new Map([[modelId, { remainingFraction, resetTime: new Date(resetTime) }]])
+  };
+}
+
+describe('inferPeriod', () => {
+  it('should need at least two reset times', () => {
+    expect(inferPeriod([])).toBeUndefined();
+    expect(inferPeriod([START])).toBeUndefined();
+  });
+
+  it('should snap to a common period despite jitter', () => {
+    expect(inferPeriod([START, START + 5 * HOUR_MS + 90 * 1000])).toEqual({ kind: 'fixed', ms: 5 * HOUR_MS });
+    expect(inferPeriod([START, START + DAY_MS - 5 * 60 * 1000])).toEqual({ kind: 'fixed', ms: DAY_MS });
+  });
+
+  it('should use the shortest interval when resets were missed', () => {
+    const period = inferPeriod([START, START + 15 * HOUR_MS, START + 20 * HOUR_MS]);
+
+    expect(period).toEqual({ kind: 'fixed', ms: 5 * HOUR_MS });
+  });
+
+  it('should recognize calendar months of different lengths', () => {
+    const feb = Date.parse('2025-02-01T00:00:00Z');
+    const mar = Date.parse('2025-03-01T00:00:00Z');
+
+    expect(inferPeriod([feb, mar])).toEqual({ kind: 'monthly' });
+  });
+
+  it('should keep an unusual period rounded to the minute', () => {
+    expect(inferPeriod([START, START + 3 * HOUR_MS + 20 * 1000])).toEqual({ kind: 'fixed', ms: 3 * HOUR_MS });
+  });
+});
+
+describe('formatPeriod', () => {
+  it('should name common and custom periods', () => {
+    expect(formatPeriod(undefined)).toBe('Unknown');
+    expect(formatPeriod({ kind: 'monthly' })).toBe('Monthly');
+    expect(formatPeriod({ kind: 'fixed', ms: 5 * HOUR_MS })).toBe('Every 5h');
+    expect(formatPeriod({ kind: 'fixed', ms: DAY_MS })).toBe('Daily');
+    expect(formatPeriod({ kind: 'fixed', ms: 3 * HOUR_MS })).toBe('Every 3h');
+    expect(formatPeriod({ kind: 'fixed', ms: 2 * DAY_MS })).toBe('Every 2d');
+    expect(formatPeriod({ kind: 'fixed', ms: 90 * 60 * 1000 })).toBe('Every 90m');
+  });
+});
+
+describe('nextResets', () => {
+  it('should step by a fixed period', () => {
+    const times = nextResets(new Date(START), { kind: 'fixed', ms: 5 * HOUR_MS }, 3);
+
+    expect(times.map(time => time.getTime())).toEqual([START, START + 5 * HOUR_MS, START + 10 * HOUR_MS]);
+  });
+
+  it('should step by calendar months and clamp to short months', () => {
+    const times = nextResets(new Date('2025-01-31T08:00:00Z'), { kind: 'monthly' }, 3);
+
+    expect(times.map(time => time.toISOString())).toEqual([
+      '2025-01-31T08:00:00.000Z',
+      '2025-02-28T08:00:00.000Z',
+      '2025-03-31T08:00:00.000Z'
+    ]);
+  });
+});
+
+describe('ResetCycleTracker', () => {
+  let tracker: ResetCycleTracker;
+
+  beforeEach(() => {
+    tracker = new ResetCycleTracker();
+  });
+
+  it('should learn the period and refill across resets', () => {
+    tracker.observe(entry(START, 0.4, START + HOUR_MS));
+    tracker.observe(entry(START + 30 * 60 * 1000, 0.2, START + HOUR_MS));
+    tracker.observe(entry(START + 2 * HOUR_MS, 1, START + 6 * HOUR_MS));
+    tracker.observe(entry(START + 3 * HOUR_MS, 0.9, START + 6 * HOUR_MS));
+
+    const [cycle] = tracker.getCycles([createMockModelQuota({ modelId: 'model-a', label: 'Model A' })]);
+
+    expect(cycle).toMatchObject({
+      modelId: 'model-a',
+      label: 'Model A',
+      period: { kind: 'fixed', ms: 5 * HOUR_MS },
+      periodLabel: 'Every 5h',
+      refillFraction: 1,
+      observedResets: 1
+    });
+  });
+
+  it('should know nothing about models it has not seen', () => {
+    const [cycle] = tracker.getCycles([createMockModelQuota({ modelId: 'model-b' })]);
+
+    expect(cycle.period).toBeUndefined();
+    expect(cycle.periodLabel).toBe('Unknown');
+    expect(cycle.observedResets).toBe(0);
+  });
+
+  it('should not count reset time jitter as a reset', () => {
+    tracker.observe(entry(START, 0.5, START + HOUR_MS));
+    tracker.observe(entry(START + 10 * 60 * 1000, 0.5, START + HOUR_MS + 3000));
+
+    const [cycle] = tracker.getCycles([createMockModelQuota({ modelId: 'model-a' })]);
+
+    expect(cycle.observedResets).toBe(0);
+    expect(cycle.period).toBeUndefined();
+  });
+
+  it('should ignore the reset time an untouched quota rolls forward', () => {
+    for (let i = 0; i < 5; i++) {
+      const time = START + i * 2 * 60 * 1000;
+      tracker.observe(entry(time, 1, time + 5 * HOUR_MS));
+    }
+
+    const [cycle] = tracker.getCycles([createMockModelQuota({ modelId: 'model-a' })]);
+
+    expect(cycle.observedResets).toBe(0);
+    expect(cycle.period).toBeUndefined();
+  });
+
+  it('should build a timeline of reported and predicted resets, soonest first', () => {
+    tracker.observe(entry(START, 0.5, START + HOUR_MS));
+    tracker.observe(entry(START + 2 * HOUR_MS, 1, START + 6 * HOUR_MS));
+    tracker.observe(entry(START + 3 * HOUR_MS, 0.9, START + 6 * HOUR_MS));
+
+    const models = [
+      createMockModelQuota({ modelId: 'model-a', label: 'Model A', resetTime: new Date(START + 6 * HOUR_MS) }),
+      createMockModelQuota({ modelId: 'model-b', label: 'Model B', resetTime: new Date(START + 8 * HOUR_MS) })
+    ];
+    const timeline = tracker.getTimeline(models);
+
+    expect(timeline.map(reset => [reset.label, reset.time.getTime() - START, reset.predicted])).toEqual([
+      ['Model A', 6 * HOUR_MS, false],
+      ['Model B', 8 * HOUR_MS, false],
+      ['Model A', 11 * HOUR_MS, true],
+      ['Model A', 16 * HOUR_MS, true]
+    ]);
+    expect(timeline[2].refillFraction).toBe(1);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Anomaly Detector
+ * Flags a drop between two polls that is far outside a model's recent per-poll drops,
+ * such as a runaway agent loop eating quota
+ */
+
+import { isReset } from './burnRate';
+import { BurnRateSample, QuotaAnomaly } from '../types';
+
+/** Drops smaller than this (percentage points) are never anomalies */
+const MIN_ANOMALY_DROP = 10;
+/** Without recent drops to compare with, only a drop this large is flagged */
+const MIN_DROP_WITHOUT_BASELINE = 20;
+/** Recent drops needed before the distribution is trusted */
+const MIN_BASELINE_DROPS = 3;
+/** How many robust standard deviations above the median counts as anomalous */
+const DEVIATIONS = 5;
+/** Floor for the spread, so a model that always drops by the same amount is not flagged for 1% more */
+const MIN_SPREAD = 1;
+/** Scales the median absolute deviation to a standard deviation for normal data */
+const MAD_SCALE = 1.4826;
+/**
+ * Pairs further apart than this many typical poll intervals are not "one poll",
+ * e.g. the first live poll after history restored from a previous session
+ */
+const MAX_GAP_FACTOR = 3;
+
+/**
+ * Check whether the latest poll (last sample) dropped far more than the polls before it.
+ * Pairs across a quota reset are ignored; so are repeated samples of the same instant
+ * and pairs much further apart than the usual poll interval.
+ */
+export function detectDropAnomaly(samples: BurnRateSample[]): QuotaAnomaly | undefined {
+  const pairs: { drop: number; gap: number }[] = [];
+  for (let i = 1; i < samples.length; i++) {
+    const previous = samples[i - 1];
+    const next = samples[i];
+    if (next.time <= previous.time || isReset(previous, next)) continue;
+    pairs.push({ drop: (previous.remainingFraction - next.remainingFraction) * 100, gap: next.time - previous.time });
+  }
+
+  const latest = samples[samples.length - 1];
+  const previous = samples[samples.length - 2];
+  if (!latest || !previous || latest.time <= previous.time || isReset(previous, latest)) {
+    return undefined;
+  }
+
+  const maxGap = MAX_GAP_FACTOR * median(pairs.map(pair => pair.gap));
+  const drop = pairs.pop()!.drop;
+  if (latest.time - previous.time > maxGap) return undefined;
+
+  const drops = pairs.filter(pair => pair.gap <= maxGap).map(pair => pair.drop);
+  const typicalDrop = median(drops);
+  const threshold = drops.length >= MIN_BASELINE_DROPS
+    ? Math.max(MIN_ANOMALY_DROP, typicalDrop + DEVIATIONS * Math.max(MIN_SPREAD, MAD_SCALE * median(drops.map(d => Math.abs(d - typicalDrop)))))
+    : MIN_DROP_WITHOUT_BASELINE;
+
+  if (drop <= threshold) return undefined;
+
+  return {
+    drop: round(drop),
+    intervalMs: latest.time - previous.time,
+    typicalDrop: round(typicalDrop),
+    threshold: round(threshold),
+    detectedAt: new Date(latest.time)
+  };
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,208 @@
+/**
+ * Budget Pacing
+ * Tracks quota usage over days and compares it with the usage target set for a
+ * model or pool, per day or per reset window
+ */
+
+import { HOURLY_RETENTION_MS } from './historyStore';
+import { isReset } from './burnRate';
+import { addMonths } from './resetCycles';
+import {
+  BudgetPacing,
+  BurnRateSample,
+  HistoryEntry,
+  ModelQuota,
+  PacingStatus,
+  ResetPeriod,
+  UsageBudget
+} from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+/** Being this many percentage points off an even pace still counts as on track... */
+const MIN_PACE_TOLERANCE = 2;
+/** ...or this share of the budget, whichever is larger */
+const PACE_TOLERANCE_SHARE = 0.1;
+const FRACTION_TOLERANCE = 0.001;
+
+const STATUS_LABELS: Record<PacingStatus, string> = {
+  ahead: 'ahead of pace',
+  onTrack: 'on track',
+  behind: 'behind pace'
+};
+
+export class UsageTracker {
+  private samples = new Map<string, BurnRateSample[]>();
+
+  /**
+   * Record the remaining quota of every model in a history entry; entries may arrive in any order
+   */
+  observe(entry: HistoryEntry): void {
+    const time = entry.timestamp.getTime();
+
+    for (const [modelId, sample] of entry.models) {
+      let samples = this.samples.get(modelId);
+      if (!samples) {
+        samples = [];
+        this.samples.set(modelId, samples);
+      }
+      addSample(samples, { time, remainingFraction: sample.remainingFraction, resetTime: sample.resetTime?.getTime() });
+
+      const since = samples[samples.length - 1].time - HOURLY_RETENTION_MS;
+      while (samples.length > 0 && samples[0].time < since) {
+        samples.shift();
+      }
+    }
+  }
+
+  /**
+   * Percentage points used since a time. Quota regained at a reset does not offset
+   * usage, and a poll interval that straddles the time counts in proportion.
+   */
+  usedSince(modelId: string, since: number): number {
+    const samples = this.samples.get(modelId) ?? [];
+    let used = 0;
+
+    for (let i = 1; i < samples.length; i++) {
+      const previous = samples[i - 1];
+      const next = samples[i];
+      if (next.time <= since || isReset(previous, next)) continue;
+
+      const drop = Math.max(0, previous.remainingFraction - next.remainingFraction) * 100;
+      used += previous.time < since ? drop * (next.time - since) / (next.time - previous.time) : drop;
+    }
+    return used;
+  }
+
+  /**
+   * When the latest observed reset happened: the reset time the window before it reported.
+   * The reset time of an untouched quota rolls forward with every poll, so only a window
+   * that was used counts.
+   */
+  lastResetAt(modelId: string): number | undefined {
+    const samples = this.samples.get(modelId) ?? [];
+    for (let i = samples.length - 1; i > 0; i--) {
+      if (samples[i - 1].remainingFraction < 1 - FRACTION_TOLERANCE && isReset(samples[i - 1], samples[i])) {
+        return samples[i - 1].resetTime ?? samples[i].time;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Pace a model (or the pool it leads) against its budget; undefined while the window is unknown
+   */
+  pace(model: ModelQuota, budget: UsageBudget, period: ResetPeriod | undefined, now: Date): BudgetPacing | undefined {
+    const window = getBudgetWindow(budget, now, model.resetTime, period, this.lastResetAt(model.modelId));
+    if (!window) return undefined;
+
+    const used = this.usedSince(model.modelId, window.start.getTime());
+    return paceBudget(budget, used, window, model.remainingPercent, now);
+  }
+}
+
+/**
+ * Insert a sample in time order. A run of equal samples is kept as its first
+ * and last one, which is all the usage sums need.
+ */
+function addSample(samples: BurnRateSample[], sample: BurnRateSample): void {
+  const last = samples[samples.length - 1];
+
+  if (!last || sample.time > last.time) {
+    const beforeLast = samples[samples.length - 2];
+    if (last && beforeLast && isSameQuota(beforeLast, last) && isSameQuota(last, sample)) {
+      last.time = sample.time;
+    } else {
+      samples.push(sample);
+    }
+    return;
+  }
+
+  if (samples.some(existing => existing.time === sample.time)) return;
+  samples.push(sample);
+  samples.sort((a, b) => a.time - b.time);
+}
+
+function isSameQuota(a: BurnRateSample, b: BurnRateSample): boolean {
+  return a.remainingFraction === b.remainingFraction && a.resetTime === b.resetTime;
+}
+
+/**
+ * The budget configured for a model, matched by ID or label like pinned models.
+ * Budgets without a positive percentage are ignored; the period defaults to a day.
+ */
+export function findBudget(budgets: Record<string, UsageBudget>, model: ModelQuota): UsageBudget | undefined {
+  const budget = budgets[model.modelId] ?? budgets[model.label];
+  if (!budget || typeof budget.percent !== 'number' || !(budget.percent > 0)) return undefined;
+  return { percent: Math.min(100, budget.percent), per: budget.per === 'reset' ? 'reset' : 'day' };
+}
+
+/**
+ * The window a budget applies to: the local calendar day, or the current reset window.
+ * A reset window needs its period or an observed reset to know where it started.
+ */
+export function getBudgetWindow(
+  budget: UsageBudget,
+  now: Date,
+  resetTime: Date,
+  period?: ResetPeriod,
+  lastResetAt?: number
+): { start: Date; end: Date } | undefined {
+  if (budget.per === 'day') {
+    return {
+      start: new Date(now.getFullYear(), now.getMonth(), now.getDate()),
+      end: new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1)
+    };
+  }
+
+  if (resetTime.getTime() <= now.getTime()) return undefined;
+
+  if (period) {
+    const start = period.kind === 'monthly' ? addMonths(resetTime, -1) : new Date(resetTime.getTime() - period.ms);
+    return { start, end: resetTime };
+  }
+  if (lastResetAt !== undefined && lastResetAt <= now.getTime()) {
+    return { start: new Date(lastResetAt), end: resetTime };
+  }
+  return undefined;
+}
+
+/**
+ * Compare the usage so far with an even pace through the window, and work out the
+ * burn rate that spends the rest of the budget (or the rest of the quota, if less) by its end
+ */
+export function paceBudget(
+  budget: UsageBudget,
+  used: number,
+  window: { start: Date; end: Date },
+  remainingPercent: number,
+  now: Date
+): BudgetPacing {
+  const length = window.end.getTime() - window.start.getTime();
+  const elapsed = Math.min(1, Math.max(0, (now.getTime() - window.start.getTime()) / length));
+  const expected = budget.percent * elapsed;
+  const tolerance = Math.max(MIN_PACE_TOLERANCE, budget.percent * PACE_TOLERANCE_SHARE);
+
+  let status: PacingStatus = 'onTrack';
+  if (used > expected + tolerance) status = 'ahead';
+  else if (used < expected - tolerance) status = 'behind';
+
+  const hoursLeft = (window.end.getTime() - now.getTime()) / HOUR_MS;
+  const left = Math.max(0, Math.min(budget.percent - used, remainingPercent));
+  const allowedBurnRate = hoursLeft > 0 ? left / hoursLeft : 0;
+
+  const periodLabel = budget.per === 'day' ? 'today' : 'this window';
+  return {
+    budget,
+    windowStart: window.start,
+    windowEnd: window.end,
+    used: round(used),
+    expected: round(expected),
+    status,
+    allowedBurnRate: round(allowedBurnRate),
+    label: `${Math.round(used)}% of ${budget.percent}% ${periodLabel} · ${STATUS_LABELS[status]}`
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
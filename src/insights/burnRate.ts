@@ -0,0 +1,135 @@
+/**
+ * Burn Rate
+ * Weighted regression of remaining quota over time, restarted at every quota reset
+ */
+
+import { BurnRateFit, BurnRateSample } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+/** A sample this long before the newest one counts half as much */
+const WEIGHT_HALF_LIFE_MS = HOUR_MS;
+/** Ignore rounding noise; real resets jump much further */
+const RESET_FRACTION_TOLERANCE = 0.001;
+/** Reset times are recomputed server-side and can drift by a few seconds */
+export const RESET_TIME_TOLERANCE_MS = 60 * 1000;
+/** Samples needed before the fit's confidence is no longer scaled down */
+const CONFIDENT_SAMPLES = 6;
+/** Samples needed before the scatter around the fit says anything about the rate's range */
+const MIN_INTERVAL_SAMPLES = 4;
+/** Two-sided 95% Student t quantiles by degrees of freedom; larger counts use the last one */
+const T_QUANTILES_95 = [12.71, 4.3, 3.18, 2.78, 2.57, 2.45, 2.36, 2.31, 2.26, 2.23];
+const T_QUANTILE_95_LIMIT = 1.96;
+
+/**
+ * Split samples (oldest first) into segments that each lie within one reset window.
+ * A new segment starts when the remaining fraction goes up or the reset time changes.
+ */
+export function splitAtResets(samples: BurnRateSample[]): BurnRateSample[][] {
+  const segments: BurnRateSample[][] = [];
+  let current: BurnRateSample[] = [];
+
+  for (const sample of samples) {
+    const previous = current[current.length - 1];
+    if (previous && isReset(previous, sample)) {
+      segments.push(current);
+      current = [];
+    }
+    current.push(sample);
+  }
+
+  if (current.length > 0) {
+    segments.push(current);
+  }
+  return segments;
+}
+
+/**
+ * Fit a burn rate (%/hour) to the samples of the current reset window.
+ * Recent samples weigh more, so a change of pace shows up quickly.
+ */
+export function fitBurnRate(samples: BurnRateSample[]): BurnRateFit {
+  const segments = splitAtResets(samples);
+  const segment = segments[segments.length - 1] ?? [];
+
+  if (segment.length < 2) {
+    return { rate: 0, confidence: 0, samples: segment.length };
+  }
+
+  const newest = segment[segment.length - 1].time;
+  const weights = segment.map(sample => Math.pow(0.5, (newest - sample.time) / WEIGHT_HALF_LIFE_MS));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  // Hours relative to the newest sample keep the numbers small
+  const xs = segment.map(sample => (sample.time - newest) / HOUR_MS);
+  const ys = segment.map(sample => sample.remainingFraction * 100);
+  const meanX = weightedMean(xs, weights, totalWeight);
+  const meanY = weightedMean(ys, weights, totalWeight);
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = 0; i < segment.length; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    sxx += weights[i] * dx * dx;
+    sxy += weights[i] * dx * dy;
+    syy += weights[i] * dy * dy;
+  }
+
+  // All samples at the same instant: no time to measure a rate over
+  if (sxx === 0) {
+    return { rate: 0, confidence: 0, samples: segment.length };
+  }
+
+  const slope = sxy / sxx;
+  // A flat line is explained perfectly
+  const rSquared = syy === 0 ? 1 : (sxy * sxy) / (sxx * syy);
+  const sampleFactor = Math.min(1, (segment.length - 1) / (CONFIDENT_SAMPLES - 1));
+
+  const fit: BurnRateFit = {
+    rate: Math.max(0, -slope),
+    confidence: Math.round(rSquared * sampleFactor * 100) / 100,
+    samples: segment.length
+  };
+
+  // Down-weighted old samples count as less than one sample each
+  const effectiveSamples = (totalWeight * totalWeight) / weights.reduce((sum, weight) => sum + weight * weight, 0);
+  if (segment.length >= MIN_INTERVAL_SAMPLES && effectiveSamples > 2) {
+    const residual = Math.max(0, syy - (sxy * sxy) / sxx);
+    const standardError = Math.sqrt(residual / ((effectiveSamples - 2) * sxx));
+    const margin = tQuantile95(effectiveSamples - 2) * standardError;
+    fit.rateLow = Math.max(0, -slope - margin);
+    fit.rateHigh = Math.max(0, -slope + margin);
+  }
+
+  return fit;
+}
+
+function tQuantile95(degreesOfFreedom: number): number {
+  return T_QUANTILES_95[Math.max(1, Math.floor(degreesOfFreedom)) - 1] ?? T_QUANTILE_95_LIMIT;
+}
+
+/**
+ * Format a burn rate for display, e.g. "12%/h" or "2.5%/h"
+ */
+export function formatBurnRate(rate: number): string {
+  const rounded = rate >= 10 ? Math.round(rate) : Math.round(rate * 10) / 10;
+  return `${rounded}%/h`;
+}
+
+/**
+ * Check whether the quota was reset between two consecutive samples
+ */
+export function isReset(previous: BurnRateSample, next: BurnRateSample): boolean {
+  if (next.remainingFraction - previous.remainingFraction > RESET_FRACTION_TOLERANCE) {
+    return true;
+  }
+  if (previous.resetTime !== undefined && next.resetTime !== undefined) {
+    return Math.abs(next.resetTime - previous.resetTime) > RESET_TIME_TOLERANCE_MS;
+  }
+  return false;
+}
+
+function weightedMean(values: number[], weights: number[], totalWeight: number): number {
+  return values.reduce((sum, value, i) => sum + value * weights[i], 0) / totalWeight;
+}
@@ -0,0 +1,142 @@
+/**
+ * Credit Forecast
+ * Tracks credit balances over time, measures credits/day and projects the balance
+ * at the end of the billing cycle
+ */
+
+import { HOURLY_RETENTION_MS } from './historyStore';
+import { CreditForecast, CreditPool, CreditPoolId, HistoryEntry, PlanDetails } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+/** Consumption is measured over at most the last week, so it follows changes of pace */
+const RATE_WINDOW_MS = 7 * DAY_MS;
+/** Shorter spans give wild credits/day figures */
+const MIN_RATE_SPAN_MS = HOUR_MS;
+
+interface CreditPoint {
+  time: number;
+  available: number;
+}
+
+export class CreditTracker {
+  private points = new Map<CreditPoolId, CreditPoint[]>();
+
+  /**
+   * Record the credit balances of a history entry; entries may arrive in any order
+   */
+  observe(entry: HistoryEntry): void {
+    if (!entry.credits) return;
+    const time = entry.timestamp.getTime();
+
+    for (const [id, available] of Object.entries(entry.credits) as [CreditPoolId, number][]) {
+      let points = this.points.get(id);
+      if (!points) {
+        points = [];
+        this.points.set(id, points);
+      }
+      addPoint(points, { time, available });
+
+      const since = points[points.length - 1].time - HOURLY_RETENTION_MS;
+      while (points.length > 0 && points[0].time < since) {
+        points.shift();
+      }
+    }
+  }
+
+  /**
+   * Forecast every credit pool of the snapshot
+   */
+  forecast(pools: CreditPool[], plan: PlanDetails | undefined, now: Date): CreditForecast[] {
+    return pools.map(pool => forecastCredits(pool, this.points.get(pool.id) ?? [], plan, now));
+  }
+}
+
+/**
+ * Insert a point in time order. A run of equal balances is kept as its first
+ * and last point, which is all the rate and the chart need.
+ */
+function addPoint(points: CreditPoint[], point: CreditPoint): void {
+  const last = points[points.length - 1];
+
+  if (!last || point.time > last.time) {
+    const beforeLast = points[points.length - 2];
+    if (last && beforeLast && beforeLast.available === last.available && last.available === point.available) {
+      last.time = point.time;
+    } else {
+      points.push(point);
+    }
+    return;
+  }
+
+  if (points.some(existing => existing.time === point.time)) return;
+  points.push(point);
+  points.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Measure consumption since the last refill and project the balance at the end of the cycle
+ */
+export function forecastCredits(
+  pool: CreditPool,
+  points: CreditPoint[],
+  plan: PlanDetails | undefined,
+  now: Date
+): CreditForecast {
+  const { start, end, estimated } = getBillingCycle(plan, now);
+  const forecast: CreditForecast = {
+    poolId: pool.id,
+    label: pool.label,
+    available: pool.available,
+    cycleEnd: end,
+    cycleEndEstimated: estimated,
+    history: points
+      .filter(point => point.time >= start.getTime())
+      .map(point => ({ time: new Date(point.time), available: point.available }))
+  };
+
+  const creditsPerDay = measureCreditsPerDay(points, now);
+  if (creditsPerDay === undefined) return forecast;
+
+  const daysLeft = Math.max(0, end.getTime() - now.getTime()) / DAY_MS;
+  forecast.creditsPerDay = creditsPerDay;
+  forecast.projectedBalance = Math.round(pool.available - creditsPerDay * daysLeft);
+
+  if (forecast.projectedBalance < 0) {
+    forecast.runsOutAt = new Date(now.getTime() + (pool.available / creditsPerDay) * DAY_MS);
+  }
+  return forecast;
+}
+
+/**
+ * Credits used per day since the last refill or purchase, within the rate window
+ */
+function measureCreditsPerDay(points: CreditPoint[], now: Date): number | undefined {
+  const since = now.getTime() - RATE_WINDOW_MS;
+  let first = points.length - 1;
+  while (first > 0 && points[first - 1].time >= since && points[first - 1].available >= points[first].available) {
+    first--;
+  }
+
+  const start = points[first];
+  const latest = points[points.length - 1];
+  if (!start || latest.time - start.time < MIN_RATE_SPAN_MS) return undefined;
+
+  return ((start.available - latest.available) / (latest.time - start.time)) * DAY_MS;
+}
+
+/**
+ * The billing cycle the server reports, or the current calendar month
+ */
+export function getBillingCycle(plan: PlanDetails | undefined, now: Date): { start: Date; end: Date; estimated: boolean } {
+  if (plan?.cycleEnd && plan.cycleEnd.getTime() > now.getTime()) {
+    const start = plan.cycleStart ?? new Date(plan.cycleEnd.getTime() - 30 * DAY_MS);
+    return { start, end: plan.cycleEnd, estimated: false };
+  }
+
+  return {
+    start: new Date(now.getFullYear(), now.getMonth(), 1),
+    end: new Date(now.getFullYear(), now.getMonth() + 1, 1),
+    estimated: true
+  };
+}
@@ -0,0 +1,260 @@
+/**
+ * History Store
+ * Persists quota history across sessions in an append-only JSONL file,
+ * keeping raw entries for a day and one entry per hour for a month
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { systemClock } from '../core/clock';
+import { Clock, CreditPoolId, HistoryEntry, HistorySample, PersistedHistoryEntry, QuotaSnapshot } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+export const RAW_RETENTION_MS = 24 * HOUR_MS;
+export const HOURLY_RETENTION_MS = 30 * 24 * HOUR_MS;
+const COMPACT_INTERVAL_MS = HOUR_MS;
+const CREDIT_POOL_IDS: CreditPoolId[] = ['prompt', 'flow', 'flex'];
+
+/**
+ * Build a history entry (model id -> remaining fraction and reset time, plus credit balances) from a snapshot.
+ * Models whose quota had to be guessed are left out.
+ */
+export function createHistoryEntry(snapshot: QuotaSnapshot): HistoryEntry {
+  const entry: HistoryEntry = {
+    timestamp: snapshot.timestamp,
+    models: new Map()
+  };
+
+  for (const model of snapshot.models) {
+    if (model.isQuotaUnknown) continue;
+    entry.models.set(model.modelId, { remainingFraction: model.remainingFraction, resetTime: model.resetTime });
+  }
+
+  if (snapshot.creditPools?.length) {
+    entry.credits = {};
+    for (const pool of snapshot.creditPools) {
+      entry.credits[pool.id] = pool.available;
+    }
+  }
+
+  return entry;
+}
+
+/**
+ * Apply the retention policy: entries from the last day stay as they are, older
+ * ones are reduced to the last entry of each hour, and anything past a month is dropped.
+ * Expects entries oldest first.
+ */
+export function downsampleHistory(entries: HistoryEntry[], now: Date): HistoryEntry[] {
+  const rawSince = now.getTime() - RAW_RETENTION_MS;
+  const hourlySince = now.getTime() - HOURLY_RETENTION_MS;
+  const result: HistoryEntry[] = [];
+  let lastHour: number | undefined;
+
+  for (const entry of entries) {
+    const time = entry.timestamp.getTime();
+    if (time < hourlySince) continue;
+
+    if (time >= rawSince) {
+      result.push(entry);
+      lastHour = undefined;
+      continue;
+    }
+
+    // A later entry in the same hour replaces the previous one
+    const hour = Math.floor(time / HOUR_MS);
+    if (hour === lastHour) {
+      result[result.length - 1] = entry;
+    } else {
+      result.push(entry);
+      lastHour = hour;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse history file content, oldest entry first. Invalid lines are skipped.
+ */
+export function parseHistory(content: string): HistoryEntry[] {
+  const entries: HistoryEntry[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+
+    try {
+      const parsed = JSON.parse(line) as Partial<PersistedHistoryEntry>;
+      const timestamp = new Date(parsed.timestamp ?? '');
+      if (isNaN(timestamp.getTime()) || typeof parsed.models !== 'object' || !parsed.models) continue;
+
+      const models = new Map<string, HistorySample>();
+      for (const [modelId, value] of Object.entries(parsed.models)) {
+        const sample = parseSample(value);
+        if (sample) {
+          models.set(modelId, sample);
+        }
+      }
+      const entry: HistoryEntry = { timestamp, models };
+      const credits = parseCredits(parsed.credits);
+      if (credits) {
+        entry.credits = credits;
+      }
+      entries.push(entry);
+    } catch {
+      // Skip lines torn by a crash mid-write
+    }
+  }
+
+  return entries.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Read one persisted model sample, accepting the older plain-percentage format
+ */
+function parseSample(value: unknown): HistorySample | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? { remainingFraction: value / 100 } : null;
+  }
+  if (typeof value !== 'object' || !value) return null;
+
+  const { remainingFraction, resetTime } = value as { remainingFraction?: unknown; resetTime?: unknown };
+  if (typeof remainingFraction !== 'number' || !Number.isFinite(remainingFraction)) return null;
+
+  const sample: HistorySample = { remainingFraction };
+  const reset = typeof resetTime === 'string' ? new Date(resetTime) : null;
+  if (reset && !isNaN(reset.getTime())) {
+    sample.resetTime = reset;
+  }
+  return sample;
+}
+
+/**
+ * Read persisted credit balances, keeping only numeric ones
+ */
+function parseCredits(value: unknown): HistoryEntry['credits'] {
+  if (typeof value !== 'object' || !value) return undefined;
+
+  const credits: HistoryEntry['credits'] = {};
+  for (const id of CREDIT_POOL_IDS) {
+    const available = (value as Record<string, unknown>)[id];
+    if (typeof available === 'number' && Number.isFinite(available)) {
+      credits[id] = available;
+    }
+  }
+  return Object.keys(credits).length > 0 ? credits : undefined;
+}
+
+/**
+ * Serialize an entry as one JSONL line
+ */
+function formatEntry(entry: HistoryEntry): string {
+  const models: PersistedHistoryEntry['models'] = {};
+  for (const [modelId, sample] of entry.models) {
+    models[modelId] = {
+      remainingFraction: sample.remainingFraction,
+      resetTime: sample.resetTime?.toISOString()
+    };
+  }
+
+  const persisted: PersistedHistoryEntry = { timestamp: entry.timestamp.toISOString(), models, credits: entry.credits };
+  return JSON.stringify(persisted) + '\n';
+}
+
+export class HistoryStore {
+  private entries: HistoryEntry[] = [];
+  private lastCompactedAt = 0;
+  // File operations run one at a time so a compaction never drops an append
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private filePath: string,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Read the history file and apply the retention policy.
+   * A missing file is an empty history.
+   */
+  load(): Promise<HistoryEntry[]> {
+    return this.enqueue(async () => {
+      await this.compact();
+      return this.getEntries();
+    });
+  }
+
+  /**
+   * All entries currently known, oldest first
+   */
+  getEntries(): HistoryEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Append a snapshot to the history, compacting the file about once an hour
+   */
+  append(snapshot: QuotaSnapshot): Promise<void> {
+    const entry = createHistoryEntry(snapshot);
+    if (entry.models.size === 0) return Promise.resolve();
+
+    return this.enqueue(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, formatEntry(entry), 'utf8');
+      this.entries.push(entry);
+
+      if (this.clock.now().getTime() - this.lastCompactedAt >= COMPACT_INTERVAL_MS) {
+        await this.compact();
+      }
+    });
+  }
+
+  /**
+   * Re-read the file (other windows append to it too), downsample and rewrite it
+   */
+  private async compact(): Promise<void> {
+    const content = await this.readFile();
+
+    const now = this.clock.now();
+    this.entries = downsampleHistory(parseHistory(content), now);
+    this.lastCompactedAt = now.getTime();
+
+    if (!content) return;
+
+    // Write a temporary file and rename it so a crash never leaves a truncated history.
+    // The name is unique so windows compacting at the same time do not share it.
+    const tempPath = `${this.filePath}.${process.pid}-${Math.random().toString(36).slice(2)}.tmp`;
+    await fs.writeFile(tempPath, this.entries.map(formatEntry).join(''), 'utf8');
+
+    // Carry over lines other windows appended while this one was writing. A line
+    // appended between this read and the rename is still lost: one poll, not worth a lock.
+    const latest = await this.readFile();
+    if (!latest.startsWith(content)) {
+      // Another window compacted the file meanwhile; its version stands
+      await fs.unlink(tempPath);
+      return;
+    }
+    if (latest.length > content.length) {
+      await fs.appendFile(tempPath, latest.slice(content.length), 'utf8');
+      this.entries = downsampleHistory(parseHistory(latest), now);
+    }
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  /**
+   * Contents of the history file; empty when there is none
+   */
+  private async readFile(): Promise<string> {
+    try {
+      return await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      return '';
+    }
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
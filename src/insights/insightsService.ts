@@ -9,19 +9,60 @@ import {
   UsageInsight,
   ModelWithInsights,
   SnapshotWithInsights,
-  HistoryEntry
+  HistoryEntry,
+  BurnRateSample,
+  ResetOutlook,
+  QuotaPool,
+  ResetCycle,
+  UsageBudget,
+  BurnRateFit,
+  ExhaustionRange,
+  Clock,
+  InsightsSettings
 } from '../types';
+import { systemClock } from '../core/clock';
+import { createHistoryEntry } from './historyStore';
+import { fitBurnRate } from './burnRate';
+import { ResetCycleTracker } from './resetCycles';
+import { detectPools } from './quotaPools';
+import { CreditTracker } from './creditForecast';
+import { detectDropAnomaly } from './anomalyDetector';
+import { recommendAlternatives } from './recommendations';
+import { UsageTracker, findBudget } from './budgetPacing';
 
 const MAX_HISTORY = 20;
+// Older persisted entries would stretch the burn-rate window across idle time
+const RESTORE_MAX_AGE_MS = 6 * 60 * 60 * 1000;
 
 export class InsightsService {
   private history: HistoryEntry[] = [];
   private sessionStartTime: Date;
   private sessionStartQuotas: Map<string, number> = new Map();
   private lastActiveModelId: string | undefined;
+  private resetCycles = new ResetCycleTracker();
+  private credits = new CreditTracker();
+  private modelEquivalents: string[][] = [];
+  private usage = new UsageTracker();
+  private budgets: Record<string, UsageBudget> = {};
+
+  constructor(private clock: Clock = systemClock, settings: Partial<InsightsSettings> = {}) {
+    this.sessionStartTime = clock.now();
+    this.setModelEquivalents(settings.modelEquivalents ?? []);
+    this.setBudgets(settings.budgets ?? {});
+  }
+
+  /**
+   * Set the groups of interchangeable models used to rank alternatives
+   */
+  setModelEquivalents(groups: string[][]): void {
+    this.modelEquivalents = groups.filter(Array.isArray);
+  }
 
-  constructor() {
-    this.sessionStartTime = new Date();
+  /**
+   * Set the usage targets, keyed by model ID or label, that pools are paced against
+   */
+  setBudgets(budgets: Record<string, UsageBudget>): void {
+    this.budgets = budgets ?? {};
   }
 
   /**
@@ -36,48 +77,79 @@ export class InsightsService {
 
     // Analyze each model
     const modelsWithInsights = snapshot.models.map(model =>
-      this.analyzeModel(model, snapshot)
+      model.isQuotaUnknown ? this.unknownModel(model) : this.analyzeModel(model, snapshot)
     );
 
-    // Sort: active first, then by lowest remaining %
+    // Sort: active first, then by lowest remaining %, unknown quotas last
     modelsWithInsights.sort((a, b) => {
       if (a.insights.isActive && !b.insights.isActive) return -1;
       if (!a.insights.isActive && b.insights.isActive) return 1;
+      const unknownOrder = Number(!!a.isQuotaUnknown) - Number(!!b.isQuotaUnknown);
+      if (unknownOrder !== 0) return unknownOrder;
       return a.remainingPercent - b.remainingPercent;
     });
 
-    // Calculate overall health
-    const { overallHealth, healthLabel } = this.calculateOverallHealth(modelsWithInsights);
+    // Guessed quotas would pass for full ones, so the rest of the analysis leaves them out
+    const knownModels = snapshot.models.filter(m => !m.isQuotaUnknown);
+    const knownWithInsights = modelsWithInsights.filter(m => !m.isQuotaUnknown);
+
+    // Models sharing a quota count once towards the overall health
+    const pools = detectPools(knownWithInsights, this.history);
+    const { overallHealth, healthLabel } = this.calculateOverallHealth(pools);
+    const resetCycles = this.resetCycles.getCycles(knownModels);
+    this.paceBudgets(pools, knownWithInsights, resetCycles, snapshot.timestamp);
 
     // Calculate total session usage
-    const totalSessionUsage = modelsWithInsights.length > 0
-      ? modelsWithInsights.reduce((sum, m) => sum + m.insights.sessionUsage, 0) / modelsWithInsights.length
+    const totalSessionUsage = knownWithInsights.length > 0
+      ? knownWithInsights.reduce((sum, m) => sum + m.insights.sessionUsage, 0) / knownWithInsights.length
       : 0;
 
     return {
       ...snapshot,
       modelsWithInsights,
+      pools,
       overallHealth,
       healthLabel,
       sessionStartTime: this.sessionStartTime,
-      totalSessionUsage: Math.round(totalSessionUsage)
+      totalSessionUsage: Math.round(totalSessionUsage),
+      resetCycles,
+      resetTimeline: this.resetCycles.getTimeline(knownModels),
+      creditForecasts: this.credits.forecast(snapshot.creditPools ?? [], snapshot.plan, snapshot.timestamp),
+      alternatives: recommendAlternatives(knownWithInsights, pools, this.modelEquivalents)
     };
   }
 
   /**
-   * Record snapshot in history
+   * Seed the burn-rate history, reset cycles and credit history with entries persisted by previous sessions.
+   * Entries already recorded in this session are kept.
    */
-  private recordSnapshot(snapshot: QuotaSnapshot): void {
-    const entry: HistoryEntry = {
-      timestamp: snapshot.timestamp,
-      models: new Map()
-    };
-
-    for (const model of snapshot.models) {
-      entry.models.set(model.modelId, model.remainingPercent);
+  restoreHistory(entries: HistoryEntry[]): void {
+    const since = this.clock.now().getTime() - RESTORE_MAX_AGE_MS;
+    const firstRecorded = this.history[0]?.timestamp.getTime() ?? Infinity;
+    // Reset cycles and credit consumption span days, so they learn from everything that was kept
+    for (const entry of entries) {
+      this.resetCycles.observe(entry);
+      this.credits.observe(entry);
+      this.usage.observe(entry);
     }
 
+    const restored = entries.filter(entry => {
+      const time = entry.timestamp.getTime();
+      return time >= since && time < firstRecorded;
+    });
+
+    this.history = [...restored, ...this.history].slice(-MAX_HISTORY);
+  }
+
+  /**
+   * Record snapshot in history
+   */
+  private recordSnapshot(snapshot: QuotaSnapshot): void {
+    const entry = createHistoryEntry(snapshot);
     this.history.push(entry);
+    this.resetCycles.observe(entry);
+    this.credits.observe(entry);
+    this.usage.observe(entry);
 
     // Keep only last N entries
     if (this.history.length > MAX_HISTORY) {
@@ -85,12 +157,29 @@ export class InsightsService {
     }
   }
 
+  /**
+   * Pace each pool against the budget set for its first member that has one
+   */
+  private paceBudgets(pools: QuotaPool[], models: ModelWithInsights[], cycles: ResetCycle[], now: Date): void {
+    for (const pool of pools) {
+      for (const modelId of pool.modelIds) {
+        const model = models.find(m => m.modelId === modelId)!;
+        const budget = findBudget(this.budgets, model);
+        if (!budget) continue;
+
+        const period = cycles.find(cycle => cycle.modelId === modelId)?.period;
+        pool.pacing = this.usage.pace(model, budget, period, now);
+        break;
+      }
+    }
+  }
+
   /**
    * Initialize session start quotas
    */
   private initSessionStart(snapshot: QuotaSnapshot): void {
     for (const model of snapshot.models) {
-      if (!this.sessionStartQuotas.has(model.modelId)) {
+      if (!model.isQuotaUnknown && !this.sessionStartQuotas.has(model.modelId)) {
         this.sessionStartQuotas.set(model.modelId, model.remainingPercent);
       }
     }
@@ -100,24 +189,36 @@ export class InsightsService {
    * Analyze a single model
    */
   private analyzeModel(model: ModelQuota, snapshot: QuotaSnapshot): ModelWithInsights {
-    const burnRate = this.calculateBurnRate(model.modelId);
+    const samples = this.getSamples(model.modelId);
+    const fit = fitBurnRate(samples);
+    const burnRate = fit.rate;
+    const anomaly = detectDropAnomaly(samples);
     const sessionUsage = this.calculateSessionUsage(model.modelId, model.remainingPercent);
     const isActive = this.detectActiveModel(model, snapshot);
 
     let predictedExhaustion: Date | undefined;
+    let exhaustionRange: ExhaustionRange | undefined;
     let predictedExhaustionLabel: string;
 
     if (burnRate > 0 && model.remainingPercent > 0) {
       const hoursUntilEmpty = model.remainingPercent / burnRate;
-      predictedExhaustion = new Date(Date.now() + hoursUntilEmpty * 60 * 60 * 1000);
-      predictedExhaustionLabel = this.formatPrediction(hoursUntilEmpty);
+      predictedExhaustion = new Date(this.clock.now().getTime() + hoursUntilEmpty * 60 * 60 * 1000);
+      exhaustionRange = this.getExhaustionRange(model.remainingPercent, fit);
+      // A point estimate from a handful of polls is often far off, so show none until a range exists
+      predictedExhaustionLabel = exhaustionRange ? this.formatRange(model.remainingPercent, fit) : 'Not enough data';
     } else if (model.isExhausted) {
       predictedExhaustionLabel = 'Exhausted';
     } else {
       predictedExhaustionLabel = 'Safe';
     }
 
-    const trendDirection = this.getTrendDirection(model.remainingPercent, burnRate);
+    // Warnings about running out before the reset go by the pessimistic end of the range,
+    // and a model that is burning has no outlook until the range exists
+    const isBurning = burnRate > 0 && model.remainingPercent > 0;
+    const resetOutlook = isBurning && !exhaustionRange
+      ? undefined
+      : this.getResetOutlook(model, exhaustionRange?.earliest);
+    const trendDirection = this.getTrendDirection(model.remainingPercent, burnRate, anomaly !== undefined);
     const burnRateLabel = this.getBurnRateLabel(burnRate);
 
     if (isActive) {
@@ -128,36 +229,116 @@ export class InsightsService {
       ...model,
       insights: {
         burnRate,
+        burnRateConfidence: fit.confidence,
+        burnRateSamples: fit.samples,
         burnRateLabel,
         predictedExhaustion,
+        exhaustionRange,
         predictedExhaustionLabel,
         trendDirection,
         sessionUsage,
-        isActive
+        isActive,
+        resetOutlook,
+        anomaly
       }
     };
   }
 
   /**
-   * Calculate burn rate in %/hour
+   * A model whose quota had to be guessed: no usage, prediction or outlook
    */
-  private calculateBurnRate(modelId: string): number {
-    if (this.history.length < 2) return 0;
+  private unknownModel(model: ModelQuota): ModelWithInsights {
+    return {
+      ...model,
+      insights: {
+        burnRate: 0,
+        burnRateConfidence: 0,
+        burnRateSamples: 0,
+        burnRateLabel: 'Unknown',
+        predictedExhaustionLabel: 'Unknown',
+        trendDirection: 'stable',
+        sessionUsage: 0,
+        isActive: false
+      }
+    };
+  }
 
-    const oldest = this.history[0];
-    const newest = this.history[this.history.length - 1];
+  /**
+   * Compare the predicted exhaustion with the model's reset time
+   */
+  private getResetOutlook(model: ModelQuota, predictedExhaustion: Date | undefined): ResetOutlook | undefined {
+    const msUntilReset = model.resetTime.getTime() - this.clock.now().getTime();
+    if (msUntilReset <= 0) return undefined;
+
+    const sustainableBurnRate = (model.remainingFraction * 100) / (msUntilReset / (60 * 60 * 1000));
+
+    if (model.isExhausted) {
+      return { lastsUntilReset: false, shortfallMs: msUntilReset, sustainableBurnRate: 0, label: 'Exhausted until reset' };
+    }
+
+    const shortfallMs = predictedExhaustion ? model.resetTime.getTime() - predictedExhaustion.getTime() : 0;
+    if (shortfallMs <= 0) {
+      return { lastsUntilReset: true, shortfallMs: 0, sustainableBurnRate, label: 'Lasts until reset' };
+    }
+
+    return {
+      lastsUntilReset: false,
+      shortfallMs,
+      sustainableBurnRate,
+      label: `Runs out ${this.formatPrediction(shortfallMs / (60 * 60 * 1000))} before reset`
+    };
+  }
 
-    const oldValue = oldest.models.get(modelId);
-    const newValue = newest.models.get(modelId);
+  /**
+   * Exhaustion times at the fastest and slowest plausible burn rates of the fit
+   */
+  private getExhaustionRange(remainingPercent: number, fit: BurnRateFit): ExhaustionRange | undefined {
+    if (fit.rateLow === undefined || !fit.rateHigh) return undefined;
+
+    const now = this.clock.now().getTime();
+    const hoursAt = (rate: number) => remainingPercent / rate;
+    return {
+      earliest: new Date(now + hoursAt(fit.rateHigh) * 60 * 60 * 1000),
+      latest: fit.rateLow > 0 ? new Date(now + hoursAt(fit.rateLow) * 60 * 60 * 1000) : undefined,
+      earliestLabel: this.formatPrediction(hoursAt(fit.rateHigh))
+    };
+  }
+
+  /**
+   * Format the exhaustion range, e.g. "40m–2h", "~3h" when both ends round alike, or "40m+" when the burn may stop
+   */
+  private formatRange(remainingPercent: number, fit: BurnRateFit): string {
+    const earliest = this.formatPrediction(remainingPercent / fit.rateHigh!);
+    if (!fit.rateLow) return `${earliest.replace(/^~/, '')}+`;
 
-    if (oldValue === undefined || newValue === undefined) return 0;
+    const latest = this.formatPrediction(remainingPercent / fit.rateLow);
+    return earliest === latest ? earliest : `${earliest.replace(/^~/, '')}–${latest.replace(/^~/, '')}`;
+  }
 
-    const deltaPercent = oldValue - newValue;
-    const deltaHours = (newest.timestamp.getTime() - oldest.timestamp.getTime()) / (1000 * 60 * 60);
+  /**
+   * Calculate burn rate in %/hour
+   */
+  private calculateBurnRate(modelId: string): number {
+    return fitBurnRate(this.getSamples(modelId)).rate;
+  }
 
-    if (deltaHours <= 0) return 0;
+  /**
+   * History of one model, oldest first
+   */
+  private getSamples(modelId: string): BurnRateSample[] {
+    const samples: BurnRateSample[] = [];
+
+    for (const entry of this.history) {
+      const sample = entry.models.get(modelId);
+      if (!sample) continue;
+      samples.push({
+        time: entry.timestamp.getTime(),
+        remainingFraction: sample.remainingFraction,
+        resetTime: sample.resetTime?.getTime()
+      });
+    }
 
-    return Math.max(0, deltaPercent / deltaHours);
+    return samples;
   }
 
   /**
@@ -205,8 +386,13 @@ export class InsightsService {
   /**
    * Get trend direction based on remaining % and burn rate
    */
-  private getTrendDirection(remainingPercent: number, burnRate: number): 'stable' | 'decreasing' | 'warning' | 'critical' {
-    if (remainingPercent <= 10 || burnRate > 20) return 'critical';
+  private getTrendDirection(
+    remainingPercent: number,
+    burnRate: number,
+    suddenDrop = false
+  ): 'stable' | 'decreasing' | 'warning' | 'critical' {
+    // A sudden drop is critical before the averaged burn rate catches up
+    if (suddenDrop || remainingPercent <= 10 || burnRate > 20) return 'critical';
     if (remainingPercent <= 25 || burnRate > 10) return 'warning';
     if (burnRate > 2) return 'decreasing';
     return 'stable';
@@ -241,21 +427,21 @@ export class InsightsService {
   }
 
   /**
-   * Calculate overall health score
+   * Calculate overall health score over quota pools
    */
-  private calculateOverallHealth(models: ModelWithInsights[]): { overallHealth: number; healthLabel: string } {
-    if (models.length === 0) {
+  private calculateOverallHealth(pools: QuotaPool[]): { overallHealth: number; healthLabel: string } {
+    if (pools.length === 0) {
       return { overallHealth: 100, healthLabel: 'Unknown' };
     }
 
-    // Weighted average: active model counts more
+    // Weighted average: active pool counts more
     let totalWeight = 0;
     let weightedSum = 0;
 
-    for (const model of models) {
-      const weight = model.insights.isActive ? 3 : 1;
+    for (const pool of pools) {
+      const weight = pool.isActive ? 3 : 1;
       totalWeight += weight;
-      weightedSum += model.remainingPercent * weight;
+      weightedSum += pool.remainingPercent * weight;
     }
 
     const overallHealth = Math.round(weightedSum / totalWeight);
@@ -268,31 +454,4 @@ export class InsightsService {
 
     return { overallHealth, healthLabel };
   }
-
-  /**
-   * Get short model name for status bar
-   */
-  getShortName(label: string): string {
-    if (label.includes('Claude')) {
-      const match = label.match(/Claude\s+(\w+)\s*([\d.]+)?/);
-      if (match) {
-        return `Claude ${match[1][0]}${match[2] || ''}`;
-      }
-      return 'Claude';
-    }
-    if (label.includes('Gemini')) {
-      const isHigh = label.includes('High');
-      const isPro = label.includes('Pro');
-      const isFlash = label.includes('Flash');
-      let short = 'Gem';
-      if (isPro) short = 'Pro';
-      if (isFlash) short = 'Flash';
-      if (isHigh) short += '↑';
-      return short;
-    }
-    if (label.includes('GPT') || label.includes('O3')) {
-      return 'GPT';
-    }
-    return label.split(' ')[0].substring(0, 6);
-  }
 }
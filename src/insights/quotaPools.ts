@@ -0,0 +1,82 @@
+/**
+ * Quota Pools
+ * Groups models that share one quota: their fractions and reset times move in lockstep
+ */
+
+import { RESET_TIME_TOLERANCE_MS } from './burnRate';
+import { HistoryEntry, ModelWithInsights, QuotaPool } from '../types';
+
+/** Fractions are reported with limited precision */
+const FRACTION_TOLERANCE = 0.001;
+
+/**
+ * Group models into pools. Two models share a pool when they agree now and in every
+ * history entry that has both, and have been used at some point: untouched quotas
+ * all sit at 100% with the same reset time without being shared.
+ */
+export function detectPools(models: ModelWithInsights[], history: HistoryEntry[]): QuotaPool[] {
+  const groups: ModelWithInsights[][] = [];
+
+  for (const model of models) {
+    const group = groups.find(members => sharesQuota(members[0], model, history));
+    if (group) {
+      group.push(model);
+    } else {
+      groups.push([model]);
+    }
+  }
+
+  return groups.map(createPool);
+}
+
+/**
+ * Find the pool a model belongs to
+ */
+export function findPool(pools: QuotaPool[], modelId: string): QuotaPool | undefined {
+  return pools.find(pool => pool.modelIds.includes(modelId));
+}
+
+function sharesQuota(a: ModelWithInsights, b: ModelWithInsights, history: HistoryEntry[]): boolean {
+  if (!samePosition(a.remainingFraction, b.remainingFraction, a.resetTime, b.resetTime)) {
+    return false;
+  }
+
+  let used = a.remainingFraction < 1 - FRACTION_TOLERANCE;
+  for (const entry of history) {
+    const sampleA = entry.models.get(a.modelId);
+    const sampleB = entry.models.get(b.modelId);
+    if (!sampleA || !sampleB) continue;
+
+    if (!samePosition(sampleA.remainingFraction, sampleB.remainingFraction, sampleA.resetTime, sampleB.resetTime)) {
+      return false;
+    }
+    used = used || sampleA.remainingFraction < 1 - FRACTION_TOLERANCE;
+  }
+
+  return used;
+}
+
+function samePosition(fractionA: number, fractionB: number, resetA?: Date, resetB?: Date): boolean {
+  if (Math.abs(fractionA - fractionB) > FRACTION_TOLERANCE) return false;
+  if (!resetA || !resetB) return true;
+  return Math.abs(resetA.getTime() - resetB.getTime()) <= RESET_TIME_TOLERANCE_MS;
+}
+
+function createPool(members: ModelWithInsights[]): QuotaPool {
+  // Members burn alike; the fastest estimate is the cautious one for the pool
+  const fastest = members.reduce((a, b) => (b.insights.burnRate > a.insights.burnRate ? b : a));
+
+  return {
+    id: members.map(m => m.modelId).join('+'),
+    label: members.map(m => m.label).join(' / '),
+    modelIds: members.map(m => m.modelId),
+    remainingPercent: fastest.remainingPercent,
+    resetTime: fastest.resetTime,
+    isExhausted: fastest.isExhausted,
+    isActive: members.some(m => m.insights.isActive),
+    burnRate: fastest.insights.burnRate,
+    burnRateLabel: fastest.insights.burnRateLabel,
+    predictedExhaustionLabel: fastest.insights.predictedExhaustionLabel,
+    exhaustionRange: fastest.insights.exhaustionRange
+  };
+}
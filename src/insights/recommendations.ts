@@ -0,0 +1,99 @@
+/**
+ * Recommendations
+ * Ranks the other models of a snapshot as alternatives to the active one,
+ * so a low quota comes with a suggestion of where there is still headroom
+ */
+
+import { ModelRecommendation, ModelWithInsights, QuotaPool } from '../types';
+import { findPool } from './quotaPools';
+
+/**
+ * Rank alternatives to the active model. A candidate needs more quota left than the
+ * active pool and must not share it. Candidates are ordered by:
+ * 1. listed as equivalent to the active model
+ * 2. lasting until their own reset at the current burn rate
+ * 3. position in the equivalence group
+ * 4. remaining quota
+ * Only the best model of each pool is kept, since its siblings offer the same quota.
+ */
+export function recommendAlternatives(
+  models: ModelWithInsights[],
+  pools: QuotaPool[],
+  equivalents: string[][] = []
+): ModelRecommendation[] {
+  const active = models.find(m => m.insights.isActive);
+  if (!active) return [];
+
+  const activePool = findPool(pools, active.modelId);
+  const activeRemaining = activePool?.remainingPercent ?? active.remainingPercent;
+  const preferences = getPreferences(active, models, equivalents);
+
+  const candidates = models
+    .filter(m => !m.isExhausted && m.remainingPercent > activeRemaining)
+    .filter(m => m.modelId !== active.modelId && !activePool?.modelIds.includes(m.modelId))
+    .map(m => toRecommendation(m, preferences.has(m.modelId)))
+    .sort((a, b) =>
+      Number(b.isEquivalent) - Number(a.isEquivalent) ||
+      Number(b.lastsUntilReset) - Number(a.lastsUntilReset) ||
+      (preferences.get(a.modelId) ?? Infinity) - (preferences.get(b.modelId) ?? Infinity) ||
+      b.remainingPercent - a.remainingPercent
+    );
+
+  const seenPools = new Set<string>();
+  const recommendations: ModelRecommendation[] = [];
+  for (const candidate of candidates) {
+    const poolId = findPool(pools, candidate.modelId)?.id ?? candidate.modelId;
+    if (seenPools.has(poolId)) continue;
+    seenPools.add(poolId);
+    recommendations.push(candidate);
+  }
+  return recommendations;
+}
+
+/**
+ * e.g. "72% left, resets in 3h 10m"
+ */
+export function describeRecommendation(recommendation: ModelRecommendation): string {
+  const lasts = recommendation.lastsUntilReset ? '' : ', may run out before reset';
+  return `${recommendation.remainingPercent}% left, resets in ${recommendation.timeUntilResetFormatted}${lasts}`;
+}
+
+/**
+ * Position of each model equivalent to the active one, by model ID. Groups match
+ * models by ID or label, like pinned models; the best position wins when a model
+ * shares several groups with the active one.
+ */
+function getPreferences(
+  active: ModelWithInsights,
+  models: ModelWithInsights[],
+  equivalents: string[][]
+): Map<string, number> {
+  const matches = (model: ModelWithInsights, name: string) => name === model.modelId || name === model.label;
+  const preferences = new Map<string, number>();
+
+  for (const group of equivalents) {
+    if (!group.some(name => matches(active, name))) continue;
+    group.forEach((name, position) => {
+      for (const model of models) {
+        if (matches(model, name) && position < (preferences.get(model.modelId) ?? Infinity)) {
+          preferences.set(model.modelId, position);
+        }
+      }
+    });
+  }
+  preferences.delete(active.modelId);
+  return preferences;
+}
+
+function toRecommendation(model: ModelWithInsights, isEquivalent: boolean): ModelRecommendation {
+  return {
+    modelId: model.modelId,
+    label: model.label,
+    remainingPercent: model.remainingPercent,
+    resetTime: model.resetTime,
+    timeUntilResetFormatted: model.timeUntilResetFormatted,
+    // Idle models and those past their reset time have no outlook and are not at risk
+    lastsUntilReset: model.insights.resetOutlook?.lastsUntilReset ?? true,
+    isEquivalent
+  };
+}
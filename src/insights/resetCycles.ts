@@ -0,0 +1,188 @@
+/**
+ * Reset Cycles
+ * Learns each model's reset period and refill from successive reset times,
+ * and predicts the resets that follow the one the server reports
+ */
+
+import { isReset, RESET_TIME_TOLERANCE_MS } from './burnRate';
+import { BurnRateSample, HistoryEntry, ModelQuota, ResetCycle, ResetPeriod, UpcomingReset } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MAX_RESET_TIMES = 12;
+/** A measured period this close to a common one is snapped to it */
+const SNAP_TOLERANCE = 0.02;
+const KNOWN_PERIODS: { ms: number; label: string }[] = [
+  { ms: HOUR_MS, label: 'Hourly' },
+  { ms: 5 * HOUR_MS, label: 'Every 5h' },
+  { ms: DAY_MS, label: 'Daily' },
+  { ms: 7 * DAY_MS, label: 'Weekly' }
+];
+const MONTH_MIN_MS = 27.5 * DAY_MS;
+const MONTH_MAX_MS = 31.5 * DAY_MS;
+const FRACTION_TOLERANCE = 0.001;
+
+interface ModelObservations {
+  /** Distinct reset times seen, ascending */
+  resetTimes: number[];
+  refillFraction?: number;
+  observedResets: number;
+  last?: BurnRateSample;
+}
+
+export class ResetCycleTracker {
+  private observations = new Map<string, ModelObservations>();
+
+  /**
+   * Learn from one history entry. Refills are only detected between entries that arrive in time order.
+   * An untouched quota reports a reset time that rolls forward with every poll, so reset times
+   * only count once some of the quota was used.
+   */
+  observe(entry: HistoryEntry): void {
+    const time = entry.timestamp.getTime();
+
+    for (const [modelId, sample] of entry.models) {
+      let observations = this.observations.get(modelId);
+      if (!observations) {
+        observations = { resetTimes: [], observedResets: 0 };
+        this.observations.set(modelId, observations);
+      }
+
+      const current: BurnRateSample = {
+        time,
+        remainingFraction: sample.remainingFraction,
+        resetTime: sample.resetTime?.getTime()
+      };
+
+      const last = observations.last;
+      if (last && time > last.time && isUsed(last) && isReset(last, current)) {
+        observations.observedResets++;
+        observations.refillFraction = Math.max(observations.refillFraction ?? 0, current.remainingFraction);
+      }
+      if (current.resetTime !== undefined && isUsed(current)) {
+        addResetTime(observations.resetTimes, current.resetTime);
+      }
+      if (!last || time >= last.time) {
+        observations.last = current;
+      }
+    }
+  }
+
+  /**
+   * What has been learned about the reset cycle of each model
+   */
+  getCycles(models: ModelQuota[]): ResetCycle[] {
+    return models.map(model => {
+      const observations = this.observations.get(model.modelId);
+      const period = observations ? inferPeriod(observations.resetTimes) : undefined;
+
+      return {
+        modelId: model.modelId,
+        label: model.label,
+        period,
+        periodLabel: formatPeriod(period),
+        refillFraction: observations?.refillFraction,
+        observedResets: observations?.observedResets ?? 0
+      };
+    });
+  }
+
+  /**
+   * Upcoming resets of all models, soonest first: the reset time each model reports,
+   * followed by `perModel - 1` predicted ones for models whose period is known
+   */
+  getTimeline(models: ModelQuota[], perModel = 3): UpcomingReset[] {
+    const timeline: UpcomingReset[] = [];
+
+    for (const cycle of this.getCycles(models)) {
+      const model = models.find(m => m.modelId === cycle.modelId)!;
+      const times = cycle.period ? nextResets(model.resetTime, cycle.period, perModel) : [model.resetTime];
+
+      times.forEach((time, index) => timeline.push({
+        modelId: cycle.modelId,
+        label: cycle.label,
+        time,
+        refillFraction: cycle.refillFraction,
+        predicted: index > 0
+      }));
+    }
+
+    return timeline.sort((a, b) => a.time.getTime() - b.time.getTime());
+  }
+}
+
+function isUsed(sample: BurnRateSample): boolean {
+  return sample.remainingFraction < 1 - FRACTION_TOLERANCE;
+}
+
+/**
+ * Insert a reset time unless one within the jitter tolerance is already known
+ */
+function addResetTime(resetTimes: number[], resetTime: number): void {
+  if (resetTimes.some(known => Math.abs(known - resetTime) <= RESET_TIME_TOLERANCE_MS)) return;
+
+  resetTimes.push(resetTime);
+  resetTimes.sort((a, b) => a - b);
+  if (resetTimes.length > MAX_RESET_TIMES) {
+    resetTimes.shift();
+  }
+}
+
+/**
+ * Infer the period from distinct reset times. Gaps while the editor was closed
+ * make some intervals a multiple of the period, so the shortest one is used.
+ */
+export function inferPeriod(resetTimes: number[]): ResetPeriod | undefined {
+  let shortest = Infinity;
+  for (let i = 1; i < resetTimes.length; i++) {
+    shortest = Math.min(shortest, resetTimes[i] - resetTimes[i - 1]);
+  }
+  if (!Number.isFinite(shortest)) return undefined;
+
+  if (shortest >= MONTH_MIN_MS && shortest <= MONTH_MAX_MS) {
+    return { kind: 'monthly' };
+  }
+
+  const known = KNOWN_PERIODS.find(period => Math.abs(shortest - period.ms) <= period.ms * SNAP_TOLERANCE);
+  // Round to the minute; reset times carry a little jitter
+  return { kind: 'fixed', ms: known ? known.ms : Math.round(shortest / 60000) * 60000 };
+}
+
+/**
+ * Human-readable period, e.g. "Every 5h", "Daily", "Every 90m"
+ */
+export function formatPeriod(period: ResetPeriod | undefined): string {
+  if (!period) return 'Unknown';
+  if (period.kind === 'monthly') return 'Monthly';
+
+  const known = KNOWN_PERIODS.find(candidate => candidate.ms === period.ms);
+  if (known) return known.label;
+
+  if (period.ms % DAY_MS === 0) return `Every ${period.ms / DAY_MS}d`;
+  if (period.ms % HOUR_MS === 0) return `Every ${period.ms / HOUR_MS}h`;
+  return `Every ${Math.round(period.ms / 60000)}m`;
+}
+
+/**
+ * The given reset followed by the predicted ones, `count` in total
+ */
+export function nextResets(first: Date, period: ResetPeriod, count: number): Date[] {
+  const times: Date[] = [];
+  for (let i = 0; i < count; i++) {
+    times.push(period.kind === 'monthly' ? addMonths(first, i) : new Date(first.getTime() + i * period.ms));
+  }
+  return times;
+}
+
+/**
+ * Add calendar months, clamping to the last day of shorter months (Jan 31 -> Feb 28)
+ */
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date.getTime());
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const daysInMonth = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, daysInMonth));
+  return result;
+}
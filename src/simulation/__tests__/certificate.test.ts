@@ -0,0 +1,26 @@
+/**
+ * Tests for the throwaway simulation certificate
+ */
+
+import * as crypto from 'crypto';
+import { createSimulationCertificate } from '../certificate';
+
+describe('createSimulationCertificate', () => {
+  const now = new Date('2025-03-01T10:00:00Z');
+
+  it('should sign a localhost certificate with its own key', () => {
+    const { key, cert } = createSimulationCertificate(now);
+    const x509 = new crypto.X509Certificate(cert);
+
+    expect(x509.subject).toBe('CN=localhost');
+    expect(x509.subjectAltName).toBe('DNS:localhost, IP Address:127.0.0.1');
+    expect(x509.checkPrivateKey(crypto.createPrivateKey(key))).toBe(true);
+    expect(x509.verify(x509.publicKey)).toBe(true);
+    expect(new Date(x509.validFrom).getTime()).toBeLessThan(now.getTime());
+    expect(new Date(x509.validTo).getTime()).toBeGreaterThan(now.getTime());
+  });
+
+  it('should generate a new key every time', () => {
+    expect(createSimulationCertificate(now).key).not.toBe(createSimulationCertificate(now).key);
+  });
+});
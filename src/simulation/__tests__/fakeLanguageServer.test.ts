@@ -0,0 +1,76 @@
+/**
+ * Tests for the fake language server, driven through the real clients
+ */
+
+import { FakeLanguageServer } from '../fakeLanguageServer';
+import { SIMULATION_SCENARIOS } from '../scenarios';
+import { SimulatedClock } from '../../core/clock';
+import { AuthError, ApiNotFoundError } from '../../core/errors';
+import { ProcessDetector } from '../../core/processDetector';
+import { antigravityProvider } from '../../core/providers';
+import { QuotaService } from '../../core/quotaService';
+import { InsightsService } from '../../insights/insightsService';
+
+describe('FakeLanguageServer', () => {
+  let clock: SimulatedClock;
+  let server: FakeLanguageServer;
+  let port: number;
+
+  beforeEach(async () => {
+    clock = new SimulatedClock(new Date('2025-03-01T10:00:00Z'));
+    server = new FakeLanguageServer(SIMULATION_SCENARIOS.exhaustion, 60, antigravityProvider, clock);
+    port = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should pass the port probe only with its CSRF token', async () => {
+    const detector = new ProcessDetector();
+
+    expect(await detector.testPort(port, server.csrfToken)).toBe(true);
+    expect(await detector.testPort(port, 'wrong-token')).toBe(false);
+  });
+
+  it('should serve scripted quota to QuotaService and InsightsService', async () => {
+    const service = new QuotaService(antigravityProvider, clock);
+    const insights = new InsightsService(clock);
+    service.setConnection(port, server.csrfToken);
+
+    await service.poll();
+    insights.analyze(service.getSnapshot()!);
+
+    // One real minute is one simulated hour at speed 60
+    clock.set(new Date(clock.now().getTime() + 60 * 1000));
+    await service.poll();
+    const snapshot = service.getSnapshot()!;
+    const opus = insights.analyze(snapshot).modelsWithInsights.find(model => model.modelId === 'MODEL_CLAUDE_4_1_OPUS')!;
+
+    expect(snapshot.models[0].remainingFraction).toBeCloseTo(0.3);
+    expect(snapshot.account?.email).toBe('demo@example.com');
+    expect(opus.insights.burnRate).toBeGreaterThan(0);
+
+    clock.set(new Date(clock.now().getTime() + 2 * 60 * 1000));
+    await service.poll();
+    expect(service.getSnapshot()!.models[0].isExhausted).toBe(true);
+  });
+
+  it('should answer like the real server on errors', async () => {
+    const service = new QuotaService(antigravityProvider, clock);
+
+    service.setConnection(port, 'wrong-token');
+    await expect(service.fetchUserStatus()).rejects.toBeInstanceOf(AuthError);
+
+    const otherHost = new QuotaService(Object.assign(Object.create(antigravityProvider), { userStatusEndpoint: '/missing' }), clock);
+    otherHost.setConnection(port, server.csrfToken);
+    await expect(otherHost.fetchUserStatus()).rejects.toBeInstanceOf(ApiNotFoundError);
+  });
+
+  it('should stop listening on stop', async () => {
+    await server.stop();
+
+    expect(server.port).toBe(0);
+    expect(await new ProcessDetector().testPort(port, server.csrfToken)).toBe(false);
+  });
+});
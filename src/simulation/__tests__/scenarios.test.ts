@@ -0,0 +1,76 @@
+/**
+ * Tests for simulation scenarios
+ */
+
+import { buildUserStatus, getScenario, SIMULATION_SCENARIOS } from '../scenarios';
+import { validateUserStatus } from '../../core/responseValidator';
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date('2025-03-01T10:00:00Z');
+
+/**
+ * Models of a scenario after the given number of simulated hours (speed 1)
+ */
+function modelsAt(id: keyof typeof SIMULATION_SCENARIOS, hours: number) {
+  return validateUserStatus(buildUserStatus(SIMULATION_SCENARIOS[id], hours * HOUR_MS, now, 1), 'GetUserStatus', now).models;
+}
+
+describe('simulation scenarios', () => {
+  it('should produce responses that validate without issues', () => {
+    for (const scenario of Object.values(SIMULATION_SCENARIOS)) {
+      const response = buildUserStatus(scenario, 0, now);
+      expect(validateUserStatus(response, 'GetUserStatus', now).issues).toEqual([]);
+    }
+  });
+
+  it('should burn steadily and count down to the reset', () => {
+    const [claude] = modelsAt('steadyBurn', 2);
+
+    expect(claude.remainingFraction).toBeCloseTo(0.8);
+    expect(claude.resetTime.getTime() - now.getTime()).toBe(3 * HOUR_MS);
+  });
+
+  it('should stay exhausted until the reset, then start over', () => {
+    expect(modelsAt('exhaustion', 3)[0].remainingFraction).toBe(0);
+    expect(modelsAt('exhaustion', 5.5)[0].remainingFraction).toBeCloseTo(0.85);
+  });
+
+  it('should refill a nearly empty model to 100% at each reset', () => {
+    expect(modelsAt('reset', 1.9)[0].remainingFraction).toBe(0);
+    expect(modelsAt('reset', 2)[0].remainingFraction).toBeCloseTo(1);
+    expect(modelsAt('reset', 3)[0].remainingFraction).toBeCloseTo(0.8);
+    expect(modelsAt('reset', 4)[0].remainingFraction).toBeCloseTo(1);
+  });
+
+  it('should add a model once it appears', () => {
+    expect(modelsAt('newModel', 0.25)).toHaveLength(2);
+    const models = modelsAt('newModel', 1);
+    expect(models).toHaveLength(3);
+    expect(models[2].remainingFraction).toBeCloseTo(0.925);
+  });
+
+  it('should accelerate time by the speed factor', () => {
+    const response = buildUserStatus(SIMULATION_SCENARIOS.steadyBurn, 60 * 1000, now, 60);
+    const [claude] = validateUserStatus(response, 'GetUserStatus', now).models;
+
+    expect(claude.remainingFraction).toBeCloseTo(0.9);
+    // 4 simulated hours left are 4 real minutes
+    expect(claude.resetTime.getTime() - now.getTime()).toBe(4 * 60 * 1000);
+  });
+
+  it('should refill prompt credits at the start of each billing cycle', () => {
+    const day = 24 * HOUR_MS;
+    const status = (hours: number) => validateUserStatus(
+      buildUserStatus(SIMULATION_SCENARIOS.steadyBurn, hours * HOUR_MS, now, 1), 'GetUserStatus', now
+    );
+
+    expect(status(10).creditPools[0].available).toBe(400);
+    expect(status(30 * 24 + 10).creditPools[0].available).toBe(400);
+    expect(status(10).plan?.cycleEnd?.getTime()).toBe(now.getTime() + 30 * day - 10 * HOUR_MS);
+  });
+
+  it('should ignore unknown scenario ids', () => {
+    expect(getScenario('reset')).toBe(SIMULATION_SCENARIOS.reset);
+    expect(getScenario('off')).toBeUndefined();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Simulation Certificate
+ * Throwaway self-signed localhost certificate for the fake language server, generated
+ * each time it starts. The key only protects a loopback demo server; clients skip
+ * verification like they do for the real one.
+ */
+
+import * as crypto from 'crypto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ECDSA_WITH_SHA256 = '1.2.840.10045.4.3.2';
+const COMMON_NAME = '2.5.4.3';
+const SUBJECT_ALT_NAME = '2.5.29.17';
+
+export interface SimulationCertificate {
+  key: string;
+  cert: string;
+}
+
+/**
+ * Generate a P-256 key and a self-signed certificate for localhost and 127.0.0.1
+ */
+export function createSimulationCertificate(now = new Date()): SimulationCertificate {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+  const serial = crypto.randomBytes(16);
+  serial[0] &= 0x7f; // Serial numbers are positive
+  const signatureAlgorithm = sequence(oid(ECDSA_WITH_SHA256));
+  const name = sequence(set(sequence(oid(COMMON_NAME), tagged(0x0c, Buffer.from('localhost')))));
+  const altNames = sequence(tagged(0x82, Buffer.from('localhost')), tagged(0x87, Buffer.from([127, 0, 0, 1])));
+
+  const tbsCertificate = sequence(
+    tagged(0xa0, tagged(0x02, Buffer.from([2]))), // v3
+    tagged(0x02, serial),
+    signatureAlgorithm,
+    name,
+    sequence(utcTime(new Date(now.getTime() - DAY_MS)), utcTime(new Date(now.getTime() + 365 * DAY_MS))),
+    name,
+    publicKey.export({ type: 'spki', format: 'der' }),
+    tagged(0xa3, sequence(sequence(oid(SUBJECT_ALT_NAME), tagged(0x04, altNames))))
+  );
+  const signature = crypto.sign('sha256', tbsCertificate, privateKey);
+  const certificate = sequence(tbsCertificate, signatureAlgorithm, tagged(0x03, Buffer.concat([Buffer.from([0]), signature])));
+
+  return {
+    key: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    cert: toPem('CERTIFICATE', certificate)
+  };
+}
+
+/**
+ * DER encoding of one value: tag, length, contents
+ */
+function tagged(tag: number, contents: Buffer): Buffer {
+  const length = contents.length;
+  let header: number[];
+  if (length < 0x80) {
+    header = [tag, length];
+  } else if (length < 0x100) {
+    header = [tag, 0x81, length];
+  } else {
+    header = [tag, 0x82, length >> 8, length & 0xff];
+  }
+  return Buffer.concat([Buffer.from(header), contents]);
+}
+
+function sequence(...items: Buffer[]): Buffer {
+  return tagged(0x30, Buffer.concat(items));
+}
+
+function set(...items: Buffer[]): Buffer {
+  return tagged(0x31, Buffer.concat(items));
+}
+
+function oid(dotted: string): Buffer {
+  const [first, second, ...rest] = dotted.split('.').map(Number);
+  const bytes = [first * 40 + second];
+  for (const arc of rest) {
+    const chunk = [arc & 0x7f];
+    for (let value = arc >> 7; value > 0; value >>= 7) {
+      chunk.unshift((value & 0x7f) | 0x80);
+    }
+    bytes.push(...chunk);
+  }
+  return tagged(0x06, Buffer.from(bytes));
+}
+
+/**
+ * e.g. 251018120000Z
+ */
+function utcTime(date: Date): Buffer {
+  const text = date.toISOString().replace(/[-:T]/g, '').slice(2, 14) + 'Z';
+  return tagged(0x17, Buffer.from(text));
+}
+
+function toPem(label: string, der: Buffer): string {
+  const lines = der.toString('base64').match(/.{1,64}/g) ?? [];
+  return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----\n`;
+}
@@ -0,0 +1,96 @@
+/**
+ * Fake Language Server
+ * Local HTTPS stand-in for a Codeium-family language server, answering with scripted quota curves
+ */
+
+import * as https from 'https';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { systemClock } from '../core/clock';
+import { antigravityProvider } from '../core/providers';
+import { Clock, QuotaProvider, SimulationScenario } from '../types';
+import { createSimulationCertificate } from './certificate';
+import { buildUserStatus, DEFAULT_SIMULATION_SPEED } from './scenarios';
+
+export class FakeLanguageServer {
+  readonly csrfToken = randomUUID();
+  private server: https.Server | null = null;
+  private startedAt = 0;
+
+  constructor(
+    readonly scenario: SimulationScenario,
+    private speed = DEFAULT_SIMULATION_SPEED,
+    private provider: QuotaProvider = antigravityProvider,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Port the server listens on, or 0 when stopped
+   */
+  get port(): number {
+    return (this.server?.address() as AddressInfo | null)?.port ?? 0;
+  }
+
+  /**
+   * Start listening on the loopback interface; port 0 picks a free one.
+   * The scenario starts over each time the server starts.
+   */
+  start(port = 0): Promise<number> {
+    if (this.server) {
+      return Promise.resolve(this.port);
+    }
+
+    return new Promise((resolve, reject) => {
+      const server = https.createServer(createSimulationCertificate(this.clock.now()), (req, res) => this.handle(req, res));
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => {
+        server.off('error', reject);
+        this.server = server;
+        this.startedAt = this.clock.now().getTime();
+        resolve(this.port);
+      });
+    });
+  }
+
+  /**
+   * Stop listening and drop open connections
+   */
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return Promise.resolve();
+
+    return new Promise(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Answer like the real server: Connect-protocol JSON errors, 401 for a bad token, 404 for unknown paths
+   */
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    // Drain the request body; only the path and token matter
+    req.resume();
+    req.on('end', () => {
+      if (req.method !== 'POST') {
+        this.send(res, 405, { code: 'unimplemented', message: 'Only POST is supported' });
+      } else if (req.headers[this.provider.csrfHeader.toLowerCase()] !== this.csrfToken) {
+        this.send(res, 401, { code: 'unauthenticated', message: 'invalid CSRF token' });
+      } else if (req.url === this.provider.probeEndpoint) {
+        this.send(res, 200, {});
+      } else if (req.url === this.provider.userStatusEndpoint) {
+        const now = this.clock.now();
+        this.send(res, 200, buildUserStatus(this.scenario, now.getTime() - this.startedAt, now, this.speed));
+      } else {
+        this.send(res, 404, { code: 'not_found', message: `${req.url} not found` });
+      }
+    });
+  }
+
+  private send(res: http.ServerResponse, statusCode: number, body: unknown): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Simulation Scenarios
+ * Scripted quota curves served by the fake language server
+ */
+
+import { ServerUserStatusResponse, SimulatedModelCurve, SimulationScenario, SimulationScenarioId } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+/** Simulated billing cycle; prompt credits refill at its start */
+const BILLING_CYCLE_HOURS = 30 * 24;
+
+/** Simulated hours per real hour: by default one real minute plays one simulated hour */
+export const DEFAULT_SIMULATION_SPEED = 60;
+
+export const SIMULATION_SCENARIOS: Record<SimulationScenarioId, SimulationScenario> = {
+  steadyBurn: {
+    id: 'steadyBurn',
+    label: 'Steady burn',
+    description: 'Three models burning at different, constant rates',
+    models: [
+      { label: 'Claude Sonnet 4.5', modelId: 'MODEL_CLAUDE_4_5_SONNET', start: 1, burnPerHour: 0.1, windowHours: 5 },
+      { label: 'Gemini 3 Pro (High)', modelId: 'MODEL_GEMINI_3_PRO_HIGH', start: 1, burnPerHour: 0.05, windowHours: 5 },
+      { label: 'GPT-OSS 120B (Medium)', modelId: 'MODEL_OPENAI_GPT_OSS_120B_MEDIUM', start: 1, burnPerHour: 0.02, windowHours: 5 }
+    ],
+    promptCredits: { monthly: 500, burnPerHour: 10 }
+  },
+  exhaustion: {
+    id: 'exhaustion',
+    label: 'Exhaustion',
+    description: 'One model runs out two hours into its window and stays exhausted until the reset',
+    models: [
+      { label: 'Claude Opus 4.1', modelId: 'MODEL_CLAUDE_4_1_OPUS', start: 0.6, burnPerHour: 0.3, windowHours: 5 },
+      { label: 'Gemini 3 Pro (High)', modelId: 'MODEL_GEMINI_3_PRO_HIGH', start: 1, burnPerHour: 0.05, windowHours: 5 }
+    ],
+    promptCredits: { monthly: 500, burnPerHour: 40 }
+  },
+  reset: {
+    id: 'reset',
+    label: 'Reset',
+    description: 'A nearly empty model that resets to 100% every two hours',
+    models: [
+      { label: 'Claude Sonnet 4.5', modelId: 'MODEL_CLAUDE_4_5_SONNET', start: 0.3, burnPerHour: 0.2, windowHours: 2 },
+      { label: 'Gemini 3 Pro (High)', modelId: 'MODEL_GEMINI_3_PRO_HIGH', start: 1, burnPerHour: 0.05, windowHours: 5 }
+    ],
+    promptCredits: { monthly: 500, burnPerHour: 10 }
+  },
+  newModel: {
+    id: 'newModel',
+    label: 'New model',
+    description: 'A model that is not in the first responses appears half an hour in',
+    models: [
+      { label: 'Claude Sonnet 4.5', modelId: 'MODEL_CLAUDE_4_5_SONNET', start: 1, burnPerHour: 0.1, windowHours: 5 },
+      { label: 'Gemini 3 Pro (High)', modelId: 'MODEL_GEMINI_3_PRO_HIGH', start: 1, burnPerHour: 0.05, windowHours: 5 },
+      { label: 'Gemini 3 Flash', modelId: 'MODEL_GEMINI_3_FLASH', start: 1, burnPerHour: 0.15, windowHours: 5, appearsAt: 0.5 }
+    ],
+    promptCredits: { monthly: 500, burnPerHour: 10 }
+  }
+};
+
+/**
+ * Look up a scenario by id, or undefined when simulation is off or the id is unknown
+ */
+export function getScenario(id: string | undefined): SimulationScenario | undefined {
+  return id && id in SIMULATION_SCENARIOS ? SIMULATION_SCENARIOS[id as SimulationScenarioId] : undefined;
+}
+
+/**
+ * Build the GetUserStatus payload a scenario produces after `elapsedMs` of real time.
+ * Reset times are expressed in real time so countdowns match the accelerated curves.
+ */
+export function buildUserStatus(
+  scenario: SimulationScenario,
+  elapsedMs: number,
+  now: Date,
+  speed = DEFAULT_SIMULATION_SPEED
+): ServerUserStatusResponse {
+  const elapsedHours = (elapsedMs * speed) / HOUR_MS;
+  const visible = scenario.models.filter(model => elapsedHours >= (model.appearsAt ?? 0));
+  const { monthly, burnPerHour } = scenario.promptCredits;
+  const cycleHours = elapsedHours % BILLING_CYCLE_HOURS;
+  const cycleStart = now.getTime() - (cycleHours * HOUR_MS) / speed;
+
+  return {
+    userStatus: {
+      name: 'Demo User',
+      email: 'demo@example.com',
+      planStatus: {
+        planInfo: { planName: 'Pro (simulated)', monthlyPromptCredits: monthly },
+        availablePromptCredits: Math.max(0, Math.round(monthly - burnPerHour * cycleHours)),
+        planStart: new Date(cycleStart).toISOString(),
+        planEnd: new Date(cycleStart + (BILLING_CYCLE_HOURS * HOUR_MS) / speed).toISOString()
+      },
+      cascadeModelConfigData: {
+        clientModelConfigs: visible.map(model => {
+          const { remainingFraction, hoursUntilReset } = evaluateCurve(model, elapsedHours);
+          return {
+            label: model.label,
+            modelOrAlias: { model: model.modelId },
+            quotaInfo: {
+              remainingFraction,
+              resetTime: new Date(now.getTime() + (hoursUntilReset * HOUR_MS) / speed).toISOString()
+            }
+          };
+        })
+      }
+    }
+  };
+}
+
+/**
+ * Position of a model within its current reset window
+ */
+function evaluateCurve(model: SimulatedModelCurve, elapsedHours: number): { remainingFraction: number; hoursUntilReset: number } {
+  const hoursVisible = elapsedHours - (model.appearsAt ?? 0);
+  const hoursInWindow = hoursVisible % model.windowHours;
+  const windowStart = hoursVisible < model.windowHours ? model.start : 1;
+  const remainingFraction = Math.max(0, windowStart - model.burnPerHour * hoursInWindow);
+
+  return {
+    // Four decimals, like the real server
+    remainingFraction: Math.round(remainingFraction * 10000) / 10000,
+    hoursUntilReset: model.windowHours - hoursInWindow
+  };
+}
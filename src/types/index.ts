@@ -8,11 +8,37 @@
 
 export interface ExtensionConfig {
   enabled: boolean;
+  provider: QuotaProviderId;
   pollingInterval: number;
   pinnedModels: string[];
   alertThreshold: number;
+  /** Display names keyed by model ID */
+  modelAliases: Record<string, string>;
+  /** Groups of interchangeable models (IDs or labels), most preferred first */
+  modelEquivalents: string[][];
+  /** Usage targets keyed by model ID or label */
+  budgets: Record<string, UsageBudget>;
+  statusBar: {
+    /** Append the pinned pool's budget pacing to the status bar text */
+    showPacing: boolean;
+  };
+  connection: {
+    host: string;
+    port: number;
+  };
+  debug: {
+    recordFile: string;
+    replayFile: string;
+  };
+  simulation: {
+    scenario: SimulationScenarioId | 'off';
+    speed: number;
+  };
 }
 
+/** Settings the insights depend on; the extension config can be passed as is */
+export type InsightsSettings = Pick<ExtensionConfig, 'modelEquivalents' | 'budgets'>;
+
 // ============================================
 // Process Detection Types
 // ============================================
@@ -22,13 +48,178 @@ export interface ProcessInfo {
   extensionPort: number;
   connectPort: number;
   csrfToken: string;
+  parentPid?: number;
+  workspaceId?: string;
+  ancestors?: number[];
+}
+
+export interface ProcessCandidate {
+  pid: number;
+  parentPid?: number;
+  extensionPort: number;
+  csrfToken: string;
+  workspaceId?: string;
+}
+
+export interface CommandSpec {
+  file: string;
+  args: string[];
 }
 
 export interface PlatformStrategy {
-  getProcessListCommand(processName: string): string;
-  parseProcessInfo(stdout: string): { pid: number; extensionPort: number; csrfToken: string } | null;
-  getPortListCommand(pid: number): string;
-  parseListeningPorts(stdout: string): number[];
+  getProcessListCommand(processName: string): CommandSpec;
+  parseProcessInfo(stdout: string): ProcessCandidate[];
+  getParentPidCommand(pid: number): CommandSpec;
+  parseParentPid(stdout: string): number | null;
+  // Tried in order until one yields ports
+  getPortListCommands(pid: number): CommandSpec[];
+  parseListeningPorts(stdout: string, pid: number): number[];
+  // Optional native lookups that avoid spawning processes
+  findProcesses?(processName: string): Promise<ProcessCandidate[]>;
+  findListeningPorts?(pid: number): Promise<number[]>;
+  findParentPid?(pid: number): Promise<number | null>;
+}
+
+export interface ManualConnection {
+  host: string;
+  port: number;
+  csrfToken: string;
+  source: 'settings' | 'environment';
+}
+
+/** Last working connection; the token itself lives in secret storage */
+export interface CachedConnection {
+  pid: number;
+  extensionPort: number;
+  connectPort: number;
+  workspaceId?: string;
+  tokenFingerprint: string;
+  savedAt: number;
+}
+
+export interface PortProbeResult {
+  port: number;
+  ok: boolean;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WindowContext {
+  hostPid: number;
+  workspaceUris: string[];
+}
+
+export type InstanceMatchReason = 'single' | 'ancestry' | 'workspace' | 'ambiguous' | 'none';
+
+export interface InstanceMatch {
+  instance: ProcessInfo | null;
+  reason: InstanceMatchReason;
+  candidates: ProcessInfo[];
+}
+
+// ============================================
+// Simulation Types
+// ============================================
+
+export type SimulationScenarioId = 'steadyBurn' | 'exhaustion' | 'reset' | 'newModel';
+
+/**
+ * Scripted quota of one model, repeating every reset window
+ */
+export interface SimulatedModelCurve {
+  label: string;
+  modelId: string;
+  /** Remaining fraction at the start of the first window; every reset refills to 1 */
+  start: number;
+  /** Fraction consumed per simulated hour */
+  burnPerHour: number;
+  /** Simulated hours between resets */
+  windowHours: number;
+  /** Simulated hour the model first appears */
+  appearsAt?: number;
+}
+
+export interface SimulationScenario {
+  id: SimulationScenarioId;
+  label: string;
+  description: string;
+  models: SimulatedModelCurve[];
+  promptCredits: {
+    monthly: number;
+    burnPerHour: number;
+  };
+}
+
+// ============================================
+// Quota Provider Types
+// ============================================
+
+export type QuotaProviderId = 'antigravity' | 'windsurf' | 'codeium';
+
+/**
+ * Everything that differs between Codeium-family hosts: how their language
+ * server is detected, connected to, polled and parsed
+ */
+export interface QuotaProvider {
+  readonly id: QuotaProviderId;
+  readonly displayName: string;
+
+  // Detect
+  getProcessName(platform: NodeJS.Platform, arch: string): string;
+  matchesProcess(commandLine: string): boolean;
+
+  // Connect
+  readonly csrfHeader: string;
+  readonly probeEndpoint: string;
+
+  // Poll
+  readonly userStatusEndpoint: string;
+  buildUserStatusRequest(): object;
+
+  // Parse
+  parseUserStatus(data: unknown, now: Date): ValidatedUserStatus;
+}
+
+// ============================================
+// Diagnostics Types
+// ============================================
+
+export type DiagnosticStatus = 'ok' | 'warning' | 'error' | 'skipped';
+
+export interface DiagnosticStep {
+  title: string;
+  status: DiagnosticStatus;
+  details: string[];
+}
+
+export interface DetectionDiagnostics {
+  steps: DiagnosticStep[];
+  instances: ProcessInfo[];
+}
+
+export interface DiagnosticsReport {
+  generatedAt: Date;
+  steps: DiagnosticStep[];
+}
+
+// ============================================
+// Model Naming Types
+// ============================================
+
+/** short: status bar; medium: tooltip, lists and notifications; long: quick pick and dashboard cards */
+export type ModelNameForm = 'short' | 'medium' | 'long';
+
+/**
+ * A model label split into its parts, e.g. "Gemini 3 Pro (High)" ->
+ * vendor Google, family Gemini, version 3, variant Pro, tier High
+ */
+export interface ParsedModelName {
+  vendor?: string;
+  family: string;
+  version?: string;
+  variant?: string;
+  tier?: string;
 }
 
 // ============================================
@@ -44,6 +235,10 @@ export interface ModelQuota {
   resetTime: Date;
   timeUntilReset: number;
   timeUntilResetFormatted: string;
+  /** Fields missing or invalid in the response and filled with a default */
+  defaultedFields?: string[];
+  /** The remaining fraction or reset time was guessed; left out of history and analytics */
+  isQuotaUnknown?: boolean;
 }
 
 export interface PromptCredits {
@@ -53,10 +248,40 @@ export interface PromptCredits {
   remainingPercentage: number;
 }
 
+export type CreditPoolId = 'prompt' | 'flow' | 'flex';
+
+export interface CreditPool {
+  id: CreditPoolId;
+  label: string;
+  available: number;
+  /** Monthly allowance; absent for pools without one (e.g. purchased flex credits) */
+  monthly?: number;
+  usedPercentage?: number;
+  remainingPercentage?: number;
+}
+
+export interface PlanDetails {
+  name?: string;
+  tier?: string;
+  /** Billing cycle bounds, when the server reports them */
+  cycleStart?: Date;
+  cycleEnd?: Date;
+}
+
+export interface AccountDetails {
+  name?: string;
+  email?: string;
+}
+
 export interface QuotaSnapshot {
   timestamp: Date;
   models: ModelQuota[];
   promptCredits?: PromptCredits;
+  creditPools?: CreditPool[];
+  plan?: PlanDetails;
+  account?: AccountDetails;
+  /** Present when the response did not match the expected shape */
+  warnings?: ValidationIssue[];
 }
 
 // ============================================
@@ -64,21 +289,184 @@ export interface QuotaSnapshot {
 // ============================================
 
 export interface UsageInsight {
+  /** Fitted consumption in %/hour over the current reset window */
   burnRate: number;
+  /** 0-1: how well the fit explains the samples, scaled down when there are few */
+  burnRateConfidence: number;
+  /** History samples the burn rate was fitted on */
+  burnRateSamples: number;
   burnRateLabel: string;
   predictedExhaustion?: Date;
+  /** Where the exhaustion time falls given the scatter in observed burn; absent until there are enough samples */
+  exhaustionRange?: ExhaustionRange;
+  /** e.g. "40m–2h", or "Not enough data" while burning without a range */
   predictedExhaustionLabel: string;
   trendDirection: 'stable' | 'decreasing' | 'warning' | 'critical';
   sessionUsage: number;
   isActive: boolean;
+  /** Whether the quota lasts until its reset; absent once the reset time has passed */
+  resetOutlook?: ResetOutlook;
+  /** Set when the latest poll dropped far more than recent polls did */
+  anomaly?: QuotaAnomaly;
+}
+
+export interface ExhaustionRange {
+  /** At the fastest plausible burn rate; what alerts go by */
+  earliest: Date;
+  /** At the slowest plausible burn rate; absent when the burn may stop altogether */
+  latest?: Date;
+  /** e.g. "~40m" */
+  earliestLabel: string;
+}
+
+export interface QuotaAnomaly {
+  /** Percentage points lost between the last two polls */
+  drop: number;
+  /** Time between those polls in ms */
+  intervalMs: number;
+  /** Median drop per poll before this one */
+  typicalDrop: number;
+  /** Largest drop that still counted as normal */
+  threshold: number;
+  detectedAt: Date;
+}
+
+export type ResetPeriod =
+  | { kind: 'fixed'; ms: number }
+  | { kind: 'monthly' };
+
+export interface ResetCycle {
+  modelId: string;
+  label: string;
+  /** Undefined until two different reset times have been seen */
+  period?: ResetPeriod;
+  /** e.g. "Every 5h", "Daily", "Monthly", "Unknown" */
+  periodLabel: string;
+  /** Highest remaining fraction seen right after a reset */
+  refillFraction?: number;
+  /** Resets observed so far (history included) */
+  observedResets: number;
+}
+
+export interface UpcomingReset {
+  modelId: string;
+  label: string;
+  time: Date;
+  /** Expected remaining fraction after the reset, when learned */
+  refillFraction?: number;
+  /** False for the reset time reported by the server, true for extrapolated ones */
+  predicted: boolean;
+}
+
+export interface ResetOutlook {
+  lastsUntilReset: boolean;
+  /** How long before the reset the quota runs out at the current burn rate; 0 when it lasts */
+  shortfallMs: number;
+  /** Burn rate in %/hour that uses up the rest exactly at the reset */
+  sustainableBurnRate: number;
+  /** e.g. "Lasts until reset", "Runs out ~45m before reset" */
+  label: string;
+}
+
+export interface CreditForecast {
+  poolId: CreditPoolId;
+  label: string;
+  available: number;
+  /** Undefined until an hour of consumption since the last refill has been seen */
+  creditsPerDay?: number;
+  cycleEnd: Date;
+  /** True when the server did not report the cycle end and the end of the month is assumed */
+  cycleEndEstimated: boolean;
+  /** Balance expected at the end of the cycle; negative when credits run out before */
+  projectedBalance?: number;
+  /** When the balance reaches zero at the current rate, if that is before the cycle ends */
+  runsOutAt?: Date;
+  /** Balance over the current cycle, oldest first */
+  history: { time: Date; available: number }[];
+}
+
+/** "day": per local calendar day; "reset": per reset window */
+export type BudgetPeriod = 'day' | 'reset';
+
+export interface UsageBudget {
+  /** Percentage points of the quota to use per period */
+  percent: number;
+  per: BudgetPeriod;
+}
+
+/** "ahead": using faster than the budget allows; "behind": room to spare */
+export type PacingStatus = 'ahead' | 'onTrack' | 'behind';
+
+export interface BudgetPacing {
+  budget: UsageBudget;
+  windowStart: Date;
+  windowEnd: Date;
+  /** Percentage points used since the window started */
+  used: number;
+  /** Percentage points an even pace would have used by now */
+  expected: number;
+  status: PacingStatus;
+  /** Burn rate in %/hour that spends the rest of the budget exactly at the window end; 0 once spent */
+  allowedBurnRate: number;
+  /** e.g. "12% of 40% today · ahead of pace" */
+  label: string;
 }
 
 export interface ModelWithInsights extends ModelQuota {
   insights: UsageInsight;
 }
 
+/**
+ * Models that draw from one quota, recognized by moving in lockstep.
+ * A model that shares its quota with no other forms a pool of its own.
+ */
+export interface QuotaPool {
+  /** Member model IDs joined with "+" */
+  id: string;
+  /** Member labels joined with " / " */
+  label: string;
+  /** In the order of `modelsWithInsights` */
+  modelIds: string[];
+  remainingPercent: number;
+  resetTime: Date;
+  isExhausted: boolean;
+  isActive: boolean;
+  /** Burn rate of the whole pool in %/hour */
+  burnRate: number;
+  burnRateLabel: string;
+  predictedExhaustionLabel: string;
+  exhaustionRange?: ExhaustionRange;
+  /** Progress against the budget set for any member */
+  pacing?: BudgetPacing;
+}
+
+/**
+ * A model worth switching to when the active one runs low
+ */
+export interface ModelRecommendation {
+  modelId: string;
+  label: string;
+  remainingPercent: number;
+  resetTime: Date;
+  timeUntilResetFormatted: string;
+  /** False when it is predicted to run out before its own reset */
+  lastsUntilReset: boolean;
+  /** Listed in an equivalence group with the active model */
+  isEquivalent: boolean;
+}
+
 export interface SnapshotWithInsights extends QuotaSnapshot {
   modelsWithInsights: ModelWithInsights[];
+  /** Models grouped by the quota they draw from, in the order of `modelsWithInsights` */
+  pools: QuotaPool[];
+  /** What has been learned about each model's reset cycle */
+  resetCycles?: ResetCycle[];
+  /** Upcoming resets of all models, soonest first */
+  resetTimeline?: UpcomingReset[];
+  /** Consumption and end-of-cycle projection per credit pool */
+  creditForecasts?: CreditForecast[];
+  /** Alternatives to the active model, best first; empty when no model is active */
+  alternatives?: ModelRecommendation[];
   overallHealth: number;
   healthLabel: string;
   sessionStartTime: Date;
@@ -91,11 +479,25 @@ export interface SnapshotWithInsights extends QuotaSnapshot {
 
 export interface ServerUserStatusResponse {
   userStatus: {
+    name?: string;
+    email?: string;
+    userTier?: {
+      id?: string;
+      name?: string;
+    };
     planStatus?: {
       planInfo?: {
+        planName?: string;
+        teamsTier?: string;
         monthlyPromptCredits: string | number;
+        monthlyFlowCredits?: string | number;
       };
       availablePromptCredits?: string | number;
+      availableFlowCredits?: string | number;
+      availableFlexCredits?: string | number;
+      /** RFC 3339 timestamps of the billing cycle */
+      planStart?: string;
+      planEnd?: string;
     };
     cascadeModelConfigData?: {
       clientModelConfigs?: RawModelConfig[];
@@ -114,11 +516,96 @@ export interface RawModelConfig {
   };
 }
 
+// ============================================
+// Response Validation Types
+// ============================================
+
+export interface ValidationIssue {
+  /** Location in the response, e.g. `clientModelConfigs[2].quotaInfo.resetTime` */
+  path: string;
+  message: string;
+  /** Label of the affected model, if any */
+  model?: string;
+}
+
+export interface ValidatedModel {
+  label: string;
+  modelId: string;
+  remainingFraction: number;
+  resetTime: Date;
+  defaultedFields: string[];
+  isQuotaUnknown: boolean;
+}
+
+export interface ValidatedCreditPool {
+  id: CreditPoolId;
+  available: number;
+  monthly?: number;
+}
+
+export interface ValidatedUserStatus {
+  models: ValidatedModel[];
+  creditPools: ValidatedCreditPool[];
+  plan?: PlanDetails;
+  account?: AccountDetails;
+  issues: ValidationIssue[];
+}
+
+// ============================================
+// Record & Replay Types
+// ============================================
+
+export interface Clock {
+  now(): Date;
+}
+
+export interface RecordedResponse {
+  timestamp: Date;
+  endpoint: string;
+  response: ServerUserStatusResponse;
+}
+
 // ============================================
 // History Tracking Types
 // ============================================
 
+export interface HistorySample {
+  remainingFraction: number;
+  resetTime?: Date;
+}
+
 export interface HistoryEntry {
   timestamp: Date;
-  models: Map<string, number>;
+  models: Map<string, HistorySample>;
+  /** Available balance per credit pool */
+  credits?: Partial<Record<CreditPoolId, number>>;
+}
+
+/**
+ * One line of the persisted history file.
+ * Files written before samples carried a fraction store a plain remaining %.
+ */
+export interface PersistedHistoryEntry {
+  timestamp: string;
+  models: Record<string, { remainingFraction: number; resetTime?: string } | number>;
+  credits?: Partial<Record<CreditPoolId, number>>;
+}
+
+/**
+ * Point used to fit a burn rate: time and reset time in epoch ms
+ */
+export interface BurnRateSample {
+  time: number;
+  remainingFraction: number;
+  resetTime?: number;
+}
+
+export interface BurnRateFit {
+  /** %/hour, never negative */
+  rate: number;
+  confidence: number;
+  samples: number;
+  /** 95% range of the rate in %/hour; absent until there are enough samples */
+  rateLow?: number;
+  rateHigh?: number;
 }
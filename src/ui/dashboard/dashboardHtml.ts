@@ -3,9 +3,27 @@
  * Creates the modern glassmorphism dashboard UI
  */
 
-import { SnapshotWithInsights, ModelWithInsights, PromptCredits } from '../../types';
-
-export function generateDashboardHtml(snapshot: SnapshotWithInsights, nonce: string): string {
+import {
+  SnapshotWithInsights,
+  ModelWithInsights,
+  BudgetPacing,
+  ModelRecommendation,
+  PromptCredits,
+  CreditPool,
+  CreditForecast,
+  QuotaPool,
+  ValidationIssue
+} from '../../types';
+import { formatBurnRate } from '../../insights/burnRate';
+import { describeRecommendation } from '../../insights/recommendations';
+import { ModelNamer } from '../../core/modelNaming';
+
+export function generateDashboardHtml(
+  snapshot: SnapshotWithInsights,
+  nonce: string,
+  notice?: string,
+  namer = new ModelNamer()
+): string {
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -82,6 +100,24 @@ export function generateDashboardHtml(snapshot: SnapshotWithInsights, nonce: str
       font-size: 32px;
     }
 
+    .header-account {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-top: 4px;
+      font-size: 13px;
+      color: var(--text-secondary);
+    }
+
+    .plan-badge {
+      background: rgba(163, 113, 247, 0.15);
+      color: var(--accent-purple);
+      font-size: 11px;
+      font-weight: 600;
+      padding: 2px 8px;
+      border-radius: 10px;
+    }
+
     .header-stats {
       display: flex;
       gap: 24px;
@@ -211,6 +247,39 @@ export function generateDashboardHtml(snapshot: SnapshotWithInsights, nonce: str
       font-weight: 500;
     }
 
+    .model-name .partial-badge {
+      background: rgba(210, 153, 34, 0.2);
+      color: var(--accent-yellow);
+      font-size: 10px;
+      padding: 2px 8px;
+      border-radius: 10px;
+      font-weight: 500;
+    }
+
+    .model-name .shared-badge {
+      background: rgba(88, 166, 255, 0.15);
+      color: var(--accent-blue);
+      font-size: 10px;
+      padding: 2px 8px;
+      border-radius: 10px;
+      font-weight: 500;
+    }
+
+    .model-name .anomaly-badge {
+      background: rgba(248, 81, 73, 0.2);
+      color: var(--accent-red);
+      font-size: 10px;
+      padding: 2px 8px;
+      border-radius: 10px;
+      font-weight: 500;
+    }
+
+    .pool-members {
+      margin: -8px 0 12px;
+      font-size: 12px;
+      color: var(--text-secondary);
+    }
+
     .model-percent {
       font-size: 28px;
       font-weight: 700;
@@ -323,6 +392,111 @@ export function generateDashboardHtml(snapshot: SnapshotWithInsights, nonce: str
     .trend-warning { color: var(--accent-yellow); }
     .trend-critical { color: var(--accent-red); }
 
+    .reset-outlook {
+      margin-top: 12px;
+      font-size: 12px;
+      color: var(--text-secondary);
+    }
+
+    .reset-outlook strong.lasts { color: var(--accent-green); }
+    .reset-outlook strong.short { color: var(--accent-red); }
+
+    /* Budget pacing: fill = used, marker = even pace by now */
+    .pacing {
+      margin-top: 12px;
+      font-size: 12px;
+      color: var(--text-secondary);
+    }
+
+    .pacing-bar {
+      display: block;
+      width: 100%;
+      height: 10px;
+      margin-bottom: 6px;
+    }
+
+    .pacing-track { fill: var(--border-color); }
+    .pacing-fill { fill: var(--accent-blue); }
+    .pacing-marker { fill: var(--text-primary); }
+
+    .pacing-ahead strong { color: var(--accent-red); }
+    .pacing-ahead .pacing-fill { fill: var(--accent-red); }
+    .pacing-onTrack strong { color: var(--accent-green); }
+    .pacing-behind strong { color: var(--accent-blue); }
+
+    /* Upcoming resets timeline and alternatives */
+    .resets-section,
+    .alternatives-section {
+      background: var(--bg-card);
+      backdrop-filter: blur(10px);
+      border: 1px solid var(--border-color);
+      border-radius: 16px;
+      padding: 24px;
+      margin-bottom: 32px;
+    }
+
+    .reset-row {
+      display: grid;
+      grid-template-columns: 140px 90px 1fr auto;
+      gap: 12px;
+      align-items: center;
+      padding: 8px 0;
+      font-size: 13px;
+    }
+
+    .reset-row + .reset-row {
+      border-top: 1px solid var(--border-color);
+    }
+
+    .reset-when {
+      font-weight: 600;
+    }
+
+    .reset-until,
+    .reset-meta {
+      color: var(--text-secondary);
+      font-size: 12px;
+    }
+
+    .reset-row.predicted .reset-when {
+      font-style: italic;
+      color: var(--text-secondary);
+    }
+
+    .alternative-row {
+      display: flex;
+      gap: 12px;
+      align-items: center;
+      padding: 8px 0;
+      font-size: 13px;
+    }
+
+    .alternative-row + .alternative-row {
+      border-top: 1px solid var(--border-color);
+    }
+
+    .alternative-name {
+      font-weight: 600;
+    }
+
+    .alternative-row .equivalent-badge {
+      background: rgba(63, 185, 80, 0.15);
+      color: var(--accent-green);
+      font-size: 10px;
+      padding: 2px 8px;
+      border-radius: 10px;
+      font-weight: 500;
+    }
+
+    .alternative-meta {
+      color: var(--text-secondary);
+      font-size: 12px;
+    }
+
+    .alternative-row.short .alternative-meta {
+      color: var(--accent-yellow);
+    }
+
     /* Prompt Credits */
     .credits-section {
       background: var(--bg-card);
@@ -372,6 +546,50 @@ export function generateDashboardHtml(snapshot: SnapshotWithInsights, nonce: str
       color: var(--text-secondary);
     }
 
+    .credit-forecast {
+      margin-top: 12px;
+      font-size: 12px;
+      color: var(--text-secondary);
+    }
+
+    .credit-forecast strong.short { color: var(--accent-red); }
+
+    .credit-chart {
+      display: block;
+      width: 100%;
+      height: 60px;
+      margin-top: 8px;
+    }
+
+    .credit-chart .balance {
+      fill: none;
+      stroke: var(--accent-purple);
+      stroke-width: 2;
+    }
+
+    .credit-chart .projection {
+      fill: none;
+      stroke: var(--text-secondary);
+      stroke-width: 1.5;
+      stroke-dasharray: 4 3;
+    }
+
+    .credit-chart .projection.short {
+      stroke: var(--accent-red);
+    }
+
+    .credit-pool + .credit-pool {
+      margin-top: 20px;
+    }
+
+    .credit-pool .credits-header {
+      margin-bottom: 8px;
+    }
+
+    .credit-pool .credits-value {
+      font-size: 18px;
+    }
+
     /* Responsive */
     @media (max-width: 768px) {
       body {
@@ -426,13 +644,35 @@ export function generateDashboardHtml(snapshot: SnapshotWithInsights, nonce: str
     .bg-green { background: var(--accent-green); }
     .bg-yellow { background: var(--accent-yellow); }
     .bg-red { background: var(--accent-red); }
+
+    /* Notice banner shown above stale data */
+    .notice {
+      background: rgba(210, 153, 34, 0.15);
+      border: 1px solid var(--accent-yellow);
+      border-radius: 8px;
+      color: var(--text-primary);
+      padding: 12px 16px;
+      margin-bottom: 24px;
+    }
+
+    .notice ul {
+      margin: 8px 0 0 20px;
+      color: var(--text-secondary);
+      font-size: 12px;
+    }
   </style>
 </head>
 <body>
   <div class="dashboard">
+    ${notice ? `<div class="notice">⚠️ ${escapeHtml(notice)}</div>` : ''}
+    ${snapshot.warnings?.length ? generateWarningsHtml(snapshot.warnings) : ''}
     ${generateHeaderHtml(snapshot)}
-    ${generateModelsHtml(snapshot.modelsWithInsights)}
-    ${snapshot.promptCredits ? generateCreditsHtml(snapshot.promptCredits) : ''}
+    ${generateModelsHtml(snapshot.modelsWithInsights, snapshot.pools, namer)}
+    ${snapshot.alternatives?.length ? generateAlternativesHtml(snapshot, snapshot.alternatives, namer) : ''}
+    ${snapshot.resetTimeline?.length ? generateResetTimelineHtml(snapshot, namer) : ''}
+    ${snapshot.creditPools?.length
+      ? generateCreditPoolsHtml(snapshot.creditPools, snapshot.creditForecasts ?? [])
+      : (snapshot.promptCredits ? generateCreditsHtml(snapshot.promptCredits) : '')}
   </div>
   <script nonce="${nonce}">
     // Animate progress on load
@@ -465,7 +705,10 @@ function generateHeaderHtml(snapshot: SnapshotWithInsights): string {
     <header class="header">
       <div class="header-title">
         <span class="icon">⚡</span>
-        <h1>Antigravity Quota Dashboard</h1>
+        <div>
+          <h1>Antigravity Quota Dashboard</h1>
+          ${generateAccountHtml(snapshot)}
+        </div>
       </div>
       <div class="header-stats">
         <div class="stat-box">
@@ -496,8 +739,30 @@ function generateHeaderHtml(snapshot: SnapshotWithInsights): string {
   `;
 }
 
-function generateModelsHtml(models: ModelWithInsights[]): string {
-  const cards = models.map(model => generateModelCard(model)).join('');
+function generateAccountHtml(snapshot: SnapshotWithInsights): string {
+  const plan = [snapshot.plan?.name, snapshot.plan?.tier]
+    .filter((part, index, parts): part is string => !!part && parts.indexOf(part) === index)
+    .join(' · ');
+  const account = snapshot.account?.name && snapshot.account.email
+    ? `${snapshot.account.name} (${snapshot.account.email})`
+    : snapshot.account?.name || snapshot.account?.email;
+
+  if (!plan && !account) return '';
+
+  return `
+    <div class="header-account">
+      ${plan ? `<span class="plan-badge">${escapeHtml(plan)}</span>` : ''}
+      ${account ? `<span>${escapeHtml(account)}</span>` : ''}
+    </div>
+  `;
+}
+
+function generateModelsHtml(models: ModelWithInsights[], pools: QuotaPool[], namer: ModelNamer): string {
+  // One card per pool; models sharing a quota would show the same numbers
+  const cards = pools.map(pool => {
+    const members = pool.modelIds.map(id => models.find(m => m.modelId === id)!);
+    return generateModelCard(members[0], namer, members.length > 1 ? pool : undefined, members.slice(1), pool.pacing);
+  }).join('') + models.filter(m => m.isQuotaUnknown).map(m => generateUnknownModelCard(m, namer)).join('');
   
   return `
     <section class="models-section">
@@ -509,20 +774,37 @@ function generateModelsHtml(models: ModelWithInsights[]): string {
   `;
 }
 
-function generateModelCard(model: ModelWithInsights): string {
+function generateModelCard(
+  model: ModelWithInsights,
+  namer: ModelNamer,
+  pool?: QuotaPool,
+  sharedWith: ModelWithInsights[] = [],
+  pacing?: BudgetPacing
+): string {
   const healthClass = getHealthClass(model.remainingPercent);
   const circumference = 2 * Math.PI * 32;
-  const cardClass = model.insights.isActive ? 'active' : (model.isExhausted ? 'exhausted' : '');
+  const isActive = pool ? pool.isActive : model.insights.isActive;
+  const cardClass = isActive ? 'active' : (model.isExhausted ? 'exhausted' : '');
 
   return `
     <div class="model-card ${cardClass}">
       <div class="model-header">
         <div class="model-name">
-          ${model.label}
-          ${model.insights.isActive ? '<span class="active-badge">ACTIVE</span>' : ''}
+          ${escapeHtml(namer.name(model, 'long'))}
+          ${isActive ? '<span class="active-badge">ACTIVE</span>' : ''}
+          ${pool ? '<span class="shared-badge">SHARED</span>' : ''}
+          ${model.insights.anomaly
+            ? `<span class="anomaly-badge" title="Usually ${model.insights.anomaly.typicalDrop}% per poll">−${model.insights.anomaly.drop}% IN ONE POLL</span>`
+            : ''}
+          ${model.defaultedFields?.length
+            ? `<span class="partial-badge" title="Defaulted: ${escapeHtml(model.defaultedFields.join(', '))}">PARTIAL</span>`
+            : ''}
         </div>
         <div class="model-percent health-${healthClass}">${model.remainingPercent}%</div>
       </div>
+      ${sharedWith.length
+        ? `<div class="pool-members">Shares its quota with ${escapeHtml(sharedWith.map(m => namer.name(m, 'medium')).join(', '))}</div>`
+        : ''}
       
       <div class="donut-container">
         <div class="donut">
@@ -560,22 +842,242 @@ function generateModelCard(model: ModelWithInsights): string {
           <span class="model-stat-value">${model.timeUntilResetFormatted}</span>
         </div>
         <div class="model-stat">
-          <span class="model-stat-label">Burn Rate</span>
-          <span class="model-stat-value trend-${model.insights.trendDirection}">${model.insights.burnRateLabel}</span>
+          <span class="model-stat-label">${pool ? 'Pool Burn Rate' : 'Burn Rate'}</span>
+          <span class="model-stat-value trend-${model.insights.trendDirection}">${pool ? pool.burnRateLabel : model.insights.burnRateLabel}</span>
         </div>
         <div class="model-stat">
           <span class="model-stat-label">ETA Empty</span>
-          <span class="model-stat-value">${model.insights.predictedExhaustionLabel}</span>
+          <span class="model-stat-value">${pool ? pool.predictedExhaustionLabel : model.insights.predictedExhaustionLabel}</span>
         </div>
         <div class="model-stat">
           <span class="model-stat-label">Session Used</span>
           <span class="model-stat-value">${model.insights.sessionUsage}%</span>
         </div>
       </div>
+      ${generateResetOutlookHtml(model)}
+      ${pacing ? generatePacingHtml(pacing) : ''}
+    </div>
+  `;
+}
+
+/**
+ * Card for a model whose quota had to be guessed; it belongs to no pool
+ */
+function generateUnknownModelCard(model: ModelWithInsights, namer: ModelNamer): string {
+  return `
+    <div class="model-card">
+      <div class="model-header">
+        <div class="model-name">
+          ${escapeHtml(namer.name(model, 'long'))}
+          <span class="partial-badge" title="Defaulted: ${escapeHtml((model.defaultedFields ?? []).join(', '))}">UNKNOWN</span>
+        </div>
+        <div class="model-percent">?</div>
+      </div>
+      <div class="reset-outlook">The language server did not report this quota, so it is left out of the analytics.</div>
+    </div>
+  `;
+}
+
+function generateResetOutlookHtml(model: ModelWithInsights): string {
+  const outlook = model.insights.resetOutlook;
+  if (!outlook) return '';
+
+  const sustainable = outlook.lastsUntilReset || model.isExhausted
+    ? ''
+    : ` · keep under ${formatBurnRate(outlook.sustainableBurnRate)} to make it`;
+
+  return `
+      <div class="reset-outlook">
+        <strong class="${outlook.lastsUntilReset ? 'lasts' : 'short'}">${outlook.lastsUntilReset ? '✓' : '⚠'} ${outlook.label}</strong>${sustainable}
+      </div>`;
+}
+
+function generatePacingHtml(pacing: BudgetPacing): string {
+  const width = Math.min(100, (pacing.used / pacing.budget.percent) * 100);
+  const marker = Math.min(100, (pacing.expected / pacing.budget.percent) * 100);
+  const allowance = pacing.allowedBurnRate > 0
+    ? ` · up to ${formatBurnRate(pacing.allowedBurnRate)} for the rest of the ${pacing.budget.per === 'day' ? 'day' : 'window'}`
+    : ' · budget spent';
+
+  return `
+      <div class="pacing pacing-${pacing.status}">
+        <svg class="pacing-bar" viewBox="0 0 100 10" preserveAspectRatio="none">
+          <title>Even pace: ${pacing.expected}% by now</title>
+          <rect class="pacing-track" x="0" y="3" width="100" height="4" rx="2"></rect>
+          <rect class="pacing-fill" x="0" y="3" width="${width.toFixed(1)}" height="4" rx="2"></rect>
+          <rect class="pacing-marker" x="${Math.min(99, marker).toFixed(1)}" y="0" width="1" height="10"></rect>
+        </svg>
+        <strong>🎯 ${escapeHtml(pacing.label)}</strong>${allowance}
+      </div>`;
+}
+
+function generateResetTimelineHtml(snapshot: SnapshotWithInsights, namer: ModelNamer, maxShown = 12): string {
+  const now = snapshot.timestamp.getTime();
+  const periods = new Map(snapshot.resetCycles?.map(cycle => [cycle.modelId, cycle.periodLabel]));
+
+  const rows = snapshot.resetTimeline!
+    .filter(reset => reset.time.getTime() > now)
+    .slice(0, maxShown)
+    .map(reset => {
+      const when = reset.time.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+      const refill = reset.refillFraction !== undefined ? `refills to ${Math.round(reset.refillFraction * 100)}%` : '';
+      const meta = [refill, reset.predicted ? `predicted · ${periods.get(reset.modelId) ?? ''}` : 'reported']
+        .filter(Boolean)
+        .join(' · ');
+
+      return `
+      <div class="reset-row ${reset.predicted ? 'predicted' : ''}">
+        <span class="reset-when">${escapeHtml(when)}</span>
+        <span class="reset-until">in ${formatUntil(reset.time.getTime() - now)}</span>
+        <span>${escapeHtml(namer.name(reset, 'medium'))}</span>
+        <span class="reset-meta">${escapeHtml(meta)}</span>
+      </div>`;
+    });
+
+  if (rows.length === 0) return '';
+
+  return `
+    <section class="resets-section">
+      <h2 class="section-title">⏰ Upcoming Resets</h2>
+      ${rows.join('')}
+    </section>
+  `;
+}
+
+function generateAlternativesHtml(
+  snapshot: SnapshotWithInsights,
+  alternatives: ModelRecommendation[],
+  namer: ModelNamer,
+  maxShown = 3
+): string {
+  const active = snapshot.modelsWithInsights.find(m => m.insights.isActive);
+  const rows = alternatives.slice(0, maxShown).map(alternative => `
+      <div class="alternative-row ${alternative.lastsUntilReset ? '' : 'short'}">
+        <span class="alternative-name">${escapeHtml(namer.name(alternative, 'long'))}</span>
+        ${alternative.isEquivalent ? '<span class="equivalent-badge">EQUIVALENT</span>' : ''}
+        <span class="alternative-meta">${escapeHtml(describeRecommendation(alternative))}</span>
+      </div>`);
+
+  return `
+    <section class="alternatives-section">
+      <h2 class="section-title">💡 Alternatives${active ? ` to ${escapeHtml(namer.name(active, 'medium'))}` : ''}</h2>
+      ${rows.join('')}
+    </section>
+  `;
+}
+
+function generateWarningsHtml(warnings: ValidationIssue[], maxShown = 5): string {
+  const items = warnings.slice(0, maxShown).map(warning =>
+    `<li>${warning.model ? `${escapeHtml(warning.model)}: ` : ''}<code>${escapeHtml(warning.path)}</code> ${escapeHtml(warning.message)}</li>`
+  );
+  if (warnings.length > maxShown) {
+    items.push(`<li>… ${warnings.length - maxShown} more</li>`);
+  }
+
+  return `
+    <div class="notice">
+      ⚠️ <strong>Partial data:</strong> The language server's response did not match the expected format.
+      Values marked PARTIAL were filled with defaults and may be wrong.
+      <ul>${items.join('')}</ul>
     </div>
   `;
 }
 
+function generateCreditPoolsHtml(pools: CreditPool[], forecasts: CreditForecast[]): string {
+  const rows = pools.map(pool => {
+    const forecast = forecasts.find(f => f.poolId === pool.id);
+    const value = pool.monthly
+      ? `${pool.available.toLocaleString()} / ${pool.monthly.toLocaleString()}`
+      : pool.available.toLocaleString();
+    const remaining = pool.remainingPercentage !== undefined ? Math.round(pool.remainingPercentage) : undefined;
+
+    return `
+      <div class="credit-pool">
+        <div class="credits-header">
+          <span class="credits-title">${escapeHtml(pool.label)}</span>
+          <span class="credits-value">${value}</span>
+        </div>
+        ${remaining !== undefined ? `
+        <div class="credits-bar">
+          <div class="credits-fill" data-width="${remaining}"></div>
+        </div>
+        <div class="credits-labels">
+          <span>Used: ${Math.round(pool.usedPercentage ?? 0)}%</span>
+          <span>Remaining: ${remaining}%</span>
+        </div>` : `
+        <div class="credits-labels">
+          <span>No monthly allowance</span>
+        </div>`}
+        ${forecast ? generateCreditForecastHtml(forecast, pool.monthly) : ''}
+      </div>
+    `;
+  }).join('');
+
+  return `
+    <section class="credits-section">
+      <h2 class="section-title">💳 Credits</h2>
+      ${rows}
+    </section>
+  `;
+}
+
+function generateCreditForecastHtml(forecast: CreditForecast, monthly?: number): string {
+  const cycleEnd = forecast.cycleEnd.toLocaleDateString([], { month: 'short', day: 'numeric' });
+  const cycleLabel = forecast.cycleEndEstimated ? `end of month (${cycleEnd})` : `cycle end (${cycleEnd})`;
+
+  let summary: string;
+  if (forecast.creditsPerDay === undefined || forecast.projectedBalance === undefined) {
+    summary = 'Collecting history to project consumption…';
+  } else if (forecast.runsOutAt) {
+    const runsOut = forecast.runsOutAt.toLocaleDateString([], { month: 'short', day: 'numeric' });
+    summary = `${formatCredits(forecast.creditsPerDay)}/day · <strong class="short">⚠ Runs out ${runsOut}, before ${cycleLabel}</strong>`;
+  } else {
+    summary = `${formatCredits(forecast.creditsPerDay)}/day · ~${forecast.projectedBalance.toLocaleString()} left at ${cycleLabel}`;
+  }
+
+  return `
+        <div class="credit-forecast">${summary}</div>
+        ${generateCreditChart(forecast, monthly)}`;
+}
+
+/**
+ * Balance over the cycle so far, with a dashed projection to the cycle end (or to zero)
+ */
+function generateCreditChart(forecast: CreditForecast, monthly?: number, maxPoints = 120): string {
+  if (forecast.history.length < 2) return '';
+
+  const width = 300;
+  const height = 60;
+  const step = Math.ceil(forecast.history.length / maxPoints);
+  const points = forecast.history.filter((_, i) => i % step === 0 || i === forecast.history.length - 1);
+
+  const start = points[0].time.getTime();
+  const end = Math.max(forecast.cycleEnd.getTime(), points[points.length - 1].time.getTime());
+  const top = Math.max(monthly ?? 0, ...points.map(point => point.available)) || 1;
+  const x = (time: number) => (((time - start) / (end - start || 1)) * width).toFixed(1);
+  const y = (available: number) => (height - (Math.max(0, available) / top) * height).toFixed(1);
+
+  const balance = points.map(point => `${x(point.time.getTime())},${y(point.available)}`).join(' ');
+  const last = points[points.length - 1];
+  let projection = '';
+  if (forecast.projectedBalance !== undefined) {
+    const target = forecast.runsOutAt
+      ? `${x(forecast.runsOutAt.getTime())},${y(0)}`
+      : `${x(forecast.cycleEnd.getTime())},${y(forecast.projectedBalance)}`;
+    projection = `<polyline class="projection ${forecast.runsOutAt ? 'short' : ''}" points="${x(last.time.getTime())},${y(last.available)} ${target}"></polyline>`;
+  }
+
+  return `
+        <svg class="credit-chart" viewBox="0 0 ${width} ${height}" preserveAspectRatio="none">
+          <polyline class="balance" points="${balance}"></polyline>
+          ${projection}
+        </svg>`;
+}
+
+function formatCredits(credits: number): string {
+  return credits >= 10 ? Math.round(credits).toLocaleString() : (Math.round(credits * 10) / 10).toString();
+}
+
 function generateCreditsHtml(credits: PromptCredits): string {
   const remaining = Math.round(credits.remainingPercentage);
   
@@ -596,8 +1098,33 @@ function generateCreditsHtml(credits: PromptCredits): string {
   `;
 }
 
+function formatUntil(ms: number): string {
+  const mins = Math.ceil(ms / 60000);
+  if (mins < 60) return `${mins}m`;
+
+  const hours = Math.floor(mins / 60);
+  if (hours < 24) {
+    return mins % 60 > 0 ? `${hours}h ${mins % 60}m` : `${hours}h`;
+  }
+
+  const days = Math.floor(hours / 24);
+  return hours % 24 > 0 ? `${days}d ${hours % 24}h` : `${days}d`;
+}
+
 function getHealthClass(percent: number): string {
   if (percent <= 10) return 'red';
   if (percent <= 50) return 'yellow';
   return 'green';
 }
+
+/**
+ * Escape text for safe insertion into HTML
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -5,7 +5,8 @@
 
 import * as vscode from 'vscode';
 import { SnapshotWithInsights } from '../../types';
-import { generateDashboardHtml } from './dashboardHtml';
+import { generateDashboardHtml, escapeHtml } from './dashboardHtml';
+import { ModelNamer } from '../../core/modelNaming';
 
 export class DashboardPanel {
   public static currentPanel: DashboardPanel | undefined;
@@ -13,8 +14,9 @@ export class DashboardPanel {
 
   private readonly panel: vscode.WebviewPanel;
   private disposables: vscode.Disposable[] = [];
+  private lastSnapshot: SnapshotWithInsights | undefined;
 
-  private constructor(panel: vscode.WebviewPanel, private extensionUri: vscode.Uri) {
+  private constructor(panel: vscode.WebviewPanel, private extensionUri: vscode.Uri, private namer: ModelNamer) {
     this.panel = panel;
 
     // Handle panel disposal
@@ -40,7 +42,7 @@ export class DashboardPanel {
   /**
    * Create or show the dashboard panel
    */
-  public static createOrShow(extensionUri: vscode.Uri): DashboardPanel {
+  public static createOrShow(extensionUri: vscode.Uri, namer = new ModelNamer()): DashboardPanel {
     const column = vscode.window.activeTextEditor
       ? vscode.window.activeTextEditor.viewColumn
       : undefined;
@@ -63,7 +65,7 @@ export class DashboardPanel {
       }
     );
 
-    DashboardPanel.currentPanel = new DashboardPanel(panel, extensionUri);
+    DashboardPanel.currentPanel = new DashboardPanel(panel, extensionUri, namer);
     return DashboardPanel.currentPanel;
   }
 
@@ -71,8 +73,20 @@ export class DashboardPanel {
    * Update dashboard with new data
    */
   public update(snapshot: SnapshotWithInsights): void {
+    this.lastSnapshot = snapshot;
     const nonce = this.getNonce();
-    this.panel.webview.html = generateDashboardHtml(snapshot, nonce);
+    this.panel.webview.html = generateDashboardHtml(snapshot, nonce, undefined, this.namer);
+  }
+
+  /**
+   * Keep showing the last data with a warning banner, or an error if there is no data yet
+   */
+  public showWarning(message: string): void {
+    if (!this.lastSnapshot) {
+      this.showError(message);
+      return;
+    }
+    this.panel.webview.html = generateDashboardHtml(this.lastSnapshot, this.getNonce(), message, this.namer);
   }
 
   /**
@@ -85,8 +99,8 @@ export class DashboardPanel {
   /**
    * Show error state
    */
-  public showError(message: string): void {
-    this.panel.webview.html = this.getErrorHtml(message);
+  public showError(message: string, hint?: string): void {
+    this.panel.webview.html = this.getErrorHtml(message, hint);
   }
 
   /**
@@ -165,7 +179,7 @@ export class DashboardPanel {
   /**
    * Get error HTML
    */
-  private getErrorHtml(message: string): string {
+  private getErrorHtml(message: string, hint?: string): string {
     return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -195,6 +209,10 @@ export class DashboardPanel {
       color: #f85149;
       margin-bottom: 16px;
     }
+    .error-hint {
+      color: #8b949e;
+      margin-bottom: 16px;
+    }
     .retry-btn {
       background: #238636;
       color: white;
@@ -212,7 +230,8 @@ export class DashboardPanel {
 <body>
   <div class="error">
     <div class="error-icon">⚠️</div>
-    <p class="error-message">${message}</p>
+    <p class="error-message">${escapeHtml(message)}</p>
+    ${hint ? `<p class="error-hint">${escapeHtml(hint)}</p>` : ''}
     <button class="retry-btn" onclick="vscode.postMessage({command: 'refresh'})">Retry</button>
   </div>
   <script>
@@ -4,13 +4,27 @@
  */
 
 import * as vscode from 'vscode';
-import { SnapshotWithInsights, ModelWithInsights, ExtensionConfig } from '../types';
+import { SnapshotWithInsights, ModelWithInsights, ExtensionConfig, PacingStatus } from '../types';
+import { formatBurnRate } from '../insights/burnRate';
+import { findPool } from '../insights/quotaPools';
+import { ModelNamer } from '../core/modelNaming';
+
+/** Budget pacing as appended to the status bar text */
+const PACING_TEXT: Record<PacingStatus, string> = {
+  ahead: '▲ ahead',
+  onTrack: 'on track',
+  behind: '▼ behind'
+};
 
 export class StatusBarManager implements vscode.Disposable {
   private statusBarItem: vscode.StatusBarItem;
   private currentSnapshot: SnapshotWithInsights | null = null;
 
-  constructor() {
+  /**
+   * @param hostName Display name of the IDE whose quota is shown, e.g. "Antigravity"
+   * @param namer Shared with the rest of the UI so aliases apply everywhere
+   */
+  constructor(private hostName = 'Antigravity', private namer = new ModelNamer()) {
     this.statusBarItem = vscode.window.createStatusBarItem(
       vscode.StatusBarAlignment.Right,
       100
@@ -34,7 +48,7 @@ export class StatusBarManager implements vscode.Disposable {
    */
   showDetecting(): void {
     this.statusBarItem.text = '$(search) Quota';
-    this.statusBarItem.tooltip = 'Detecting Antigravity process...';
+    this.statusBarItem.tooltip = `Detecting ${this.hostName} process...`;
   }
 
   /**
@@ -45,6 +59,37 @@ export class StatusBarManager implements vscode.Disposable {
     this.statusBarItem.tooltip = 'Fetching quota data...';
   }
 
+  /**
+   * Show reconnecting state while the language server is being re-detected
+   */
+  showReconnecting(attempt: number, reason: string, nextRetryMs?: number): void {
+    this.statusBarItem.text = '$(debug-disconnect) Quota';
+    const retry = nextRetryMs !== undefined
+      ? `Next attempt in ${Math.round(nextRetryMs / 1000)}s`
+      : 'Detecting language server...';
+    this.statusBarItem.tooltip = `Connection lost: ${reason}\nReconnecting (attempt ${attempt}). ${retry}`;
+    this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+  }
+
+  /**
+   * Show that the language server failed and polling is backing off
+   */
+  showServerError(statusCode: number | undefined, retryInMs: number): void {
+    this.statusBarItem.text = '$(warning) Quota';
+    this.statusBarItem.tooltip = `Language server error${statusCode ? ` (HTTP ${statusCode})` : ''}\n` +
+      `Retrying in ${Math.round(retryInMs / 1000)}s`;
+    this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+  }
+
+  /**
+   * Show that the quota endpoint no longer exists
+   */
+  showApiChanged(endpoint: string): void {
+    this.statusBarItem.text = '$(plug) Quota';
+    this.statusBarItem.tooltip = `API changed: ${endpoint} was not found.\n${this.hostName} may have been updated; check for a Quota Viewer update.`;
+    this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+  }
+
   /**
    * Show error state
    */
@@ -71,9 +116,16 @@ export class StatusBarManager implements vscode.Disposable {
         m => pinnedModels.includes(m.modelId) || pinnedModels.includes(m.label)
       );
       
-      if (pinnedModel) {
-        icon = this.getHealthIcon(pinnedModel.remainingPercent, config.alertThreshold);
-        displayText = `${this.getShortName(pinnedModel.label)}: ${pinnedModel.remainingPercent}%`;
+      // Pinning a model pins the quota pool it shares with others
+      const pinnedPool = pinnedModel && findPool(snapshot.pools, pinnedModel.modelId);
+
+      if (pinnedModel && pinnedPool) {
+        const others = pinnedPool.modelIds.length > 1 ? ` +${pinnedPool.modelIds.length - 1}` : '';
+        icon = this.getHealthIcon(pinnedPool.remainingPercent, config.alertThreshold);
+        displayText = `${this.namer.name(pinnedModel, 'short')}${others}: ${pinnedPool.remainingPercent}%`;
+        if (config.statusBar?.showPacing && pinnedPool.pacing) {
+          displayText += ` · ${PACING_TEXT[pinnedPool.pacing.status]}`;
+        }
       } else {
         icon = this.getHealthIcon(snapshot.overallHealth, config.alertThreshold);
         displayText = `Quota: ${snapshot.overallHealth}%`;
@@ -89,6 +141,18 @@ export class StatusBarManager implements vscode.Disposable {
     this.statusBarItem.backgroundColor = this.getBackgroundColor(snapshot.overallHealth, config.alertThreshold);
   }
 
+  /**
+   * Show the snapshot cached by the previous session until live data arrives
+   */
+  showCached(snapshot: SnapshotWithInsights, config: ExtensionConfig): void {
+    this.update(snapshot, config);
+    this.statusBarItem.text = this.statusBarItem.text.replace(/^\$\([\w-]+\)/, '$(history)');
+    this.statusBarItem.tooltip = this.buildTooltip(
+      snapshot,
+      `*Cached at ${snapshot.timestamp.toLocaleTimeString()}, connecting to ${this.hostName}...*`
+    );
+  }
+
   /**
    * Get current snapshot
    */
@@ -118,58 +182,6 @@ export class StatusBarManager implements vscode.Disposable {
     return undefined;
   }
 
-  /**
-   * Get short model name for status bar display
-   * Returns a readable but compact name
-   */
-  private getShortName(label: string): string {
-    // Claude models: "Claude Opus 4.5" -> "Claude Opus"
-    if (label.includes('Claude')) {
-      const match = label.match(/Claude\s+(\w+)/);
-      if (match) {
-        const variant = match[1]; // Opus, Sonnet, etc.
-        return `Claude ${variant}`;
-      }
-      return 'Claude';
-    }
-    
-    // Gemini models: "Gemini 3 Pro (High)" -> "Gemini Pro"
-    if (label.includes('Gemini')) {
-      const isHigh = label.includes('High');
-      const isPro = label.includes('Pro');
-      const isFlash = label.includes('Flash');
-      
-      let name = 'Gemini';
-      if (isPro) name = 'Gemini Pro';
-      else if (isFlash) name = 'Gemini Flash';
-      
-      // Add indicator for High tier
-      if (isHigh) name += ' ↑';
-      return name;
-    }
-    
-    // GPT/OpenAI models
-    if (label.includes('GPT')) {
-      const match = label.match(/GPT[\s-]*(\S+)/);
-      if (match) {
-        return `GPT-${match[1]}`;
-      }
-      return 'GPT';
-    }
-    
-    // O3 models
-    if (label.includes('O3')) {
-      return 'O3';
-    }
-    
-    // Other models: take first two words or first 10 chars
-    const words = label.split(' ');
-    if (words.length >= 2) {
-      return `${words[0]} ${words[1]}`.substring(0, 15);
-    }
-    return label.substring(0, 10);
-  }
-
   /**
    * Get health emoji for tooltips (Unicode instead of VS Code icons)
    */
@@ -182,15 +194,35 @@ export class StatusBarManager implements vscode.Disposable {
   /**
    * Build tooltip content showing all models uniformly
    */
-  private buildTooltip(snapshot: SnapshotWithInsights): vscode.MarkdownString {
+  private buildTooltip(snapshot: SnapshotWithInsights, note?: string): vscode.MarkdownString {
     const md = new vscode.MarkdownString();
     md.isTrusted = true;
     md.supportHtml = true;
 
     md.appendMarkdown(`### 📊 Quota Status\n\n`);
+    if (note) {
+      md.appendMarkdown(`${note}\n\n`);
+    }
+    const plan = [snapshot.plan?.name, snapshot.plan?.tier].filter(Boolean).join(' · ');
+    const account = snapshot.account?.email || snapshot.account?.name;
+    if (plan || account) {
+      md.appendMarkdown(`**Account:** ${[account, plan && `(${plan})`].filter(Boolean).join(' ')}\n\n`);
+    }
+
     md.appendMarkdown(`**Overall Health:** ${snapshot.overallHealth}% (${snapshot.healthLabel})\n\n`);
     
-    if (snapshot.promptCredits) {
+    if (snapshot.warnings?.length) {
+      md.appendMarkdown(`⚠️ **Partial data:** ${snapshot.warnings.length} field(s) missing or invalid, see dashboard\n\n`);
+    }
+
+    if (snapshot.creditPools?.length) {
+      for (const pool of snapshot.creditPools) {
+        const allowance = pool.monthly ? ` / ${pool.monthly.toLocaleString()}` : '';
+        const runsOutAt = snapshot.creditForecasts?.find(f => f.poolId === pool.id)?.runsOutAt;
+        const warning = runsOutAt ? ` ⚠️ runs out ${runsOutAt.toLocaleDateString()}, before cycle end` : '';
+        md.appendMarkdown(`**${pool.label}:** ${pool.available.toLocaleString()}${allowance}${warning}\n\n`);
+      }
+    } else if (snapshot.promptCredits) {
       md.appendMarkdown(`**Prompt Credits:** ${snapshot.promptCredits.available.toLocaleString()} / ${snapshot.promptCredits.monthly.toLocaleString()}\n\n`);
     }
 
@@ -198,13 +230,31 @@ export class StatusBarManager implements vscode.Disposable {
 
     // Sort models by remaining percent (lowest first) for easy scanning
     const sortedModels = [...snapshot.modelsWithInsights]
-      .sort((a, b) => a.remainingPercent - b.remainingPercent)
+      .sort((a, b) => Number(!!a.isQuotaUnknown) - Number(!!b.isQuotaUnknown) || a.remainingPercent - b.remainingPercent)
       .slice(0, 8);
 
     for (const model of sortedModels) {
+      if (model.isQuotaUnknown) {
+        md.appendMarkdown(`❔ **${this.namer.name(model, 'medium')}**: unknown (not reported by the language server)\n\n`);
+        continue;
+      }
       const status = this.getHealthEmoji(model.remainingPercent, 20);
-      md.appendMarkdown(`${status} **${model.label}**: ${model.remainingPercent}%`);
-      md.appendMarkdown(` ↳ Reset: ${model.timeUntilResetFormatted} | ETA Empty: ${model.insights.predictedExhaustionLabel}\n\n`);
+      md.appendMarkdown(`${status} **${this.namer.name(model, 'medium')}**: ${model.remainingPercent}%`);
+      if (model.insights.anomaly) {
+        md.appendMarkdown(` 🚨 −${model.insights.anomaly.drop}% in one poll`);
+      }
+      md.appendMarkdown(` ↳ Reset: ${model.timeUntilResetFormatted} | ETA Empty: ${model.insights.predictedExhaustionLabel}`);
+      const pacing = findPool(snapshot.pools, model.modelId)?.pacing;
+      if (pacing) {
+        md.appendMarkdown(` | 🎯 ${pacing.label}`);
+      }
+      const outlook = model.insights.resetOutlook;
+      if (outlook?.lastsUntilReset || (outlook && model.isExhausted)) {
+        md.appendMarkdown(` | ${outlook.label}`);
+      } else if (outlook) {
+        md.appendMarkdown(` | ⚠️ ${outlook.label} (keep under ${formatBurnRate(outlook.sustainableBurnRate)})`);
+      }
+      md.appendMarkdown(`\n\n`);
     }
 
     md.appendMarkdown(`---\n\n`);